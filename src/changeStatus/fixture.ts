@@ -0,0 +1,62 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type * as vscode from 'vscode';
+
+import type {
+	ChangeChecksState,
+	ChangeDetails,
+	ChangeDetailsResult,
+	ChangeReference,
+	ChangeReviewDecision,
+	ChangeStatusProvider,
+} from './types';
+
+const REVIEW_DECISIONS: ReadonlySet<string> = new Set<ChangeReviewDecision>(['approved', 'changesRequested', 'reviewRequired']);
+const CHECK_STATES: ReadonlySet<string> = new Set<ChangeChecksState>(['success', 'failure', 'pending']);
+
+/**
+ * Reads change details from a JSON file instead of a forge, for working offline and for demos.
+ *
+ * The file maps change ids (`"#123"`) or branch names to details, e.g.
+ * `{ "#12": { "draft": false, "review": "approved", "checks": "failure" } }`.
+ * It is re-read on every fetch, so edits show up on the next refresh.
+ */
+export class FixtureChangeStatusProvider implements ChangeStatusProvider {
+	readonly name = 'fixture';
+
+	/**
+	 * @param fixturePath - Absolute, or relative to the repository root
+	 */
+	constructor(private readonly fixturePath: string) {}
+
+	async fetchDetails(folder: vscode.WorkspaceFolder, changes: ReadonlyArray<ChangeReference>): Promise<ChangeDetailsResult> {
+		const filePath = path.resolve(folder.uri.fsPath, this.fixturePath);
+		let fixture: unknown;
+		try {
+			fixture = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+		} catch (error) {
+			return { error: `Failed to read change fixture ${filePath}: ${error instanceof Error ? error.message : String(error)}` };
+		}
+		if (typeof fixture !== 'object' || fixture === null || Array.isArray(fixture)) {
+			return { error: `Change fixture ${filePath} must contain a JSON object.` };
+		}
+
+		const entries = fixture as Record<string, unknown>;
+		const details = new Map<string, ChangeDetails>();
+		for (const change of changes) {
+			const entry = entries[change.id] ?? entries[change.branch];
+			if (typeof entry === 'object' && entry !== null) {
+				details.set(change.branch, parseEntry(entry as Record<string, unknown>));
+			}
+		}
+		return { value: details };
+	}
+}
+
+function parseEntry(entry: Record<string, unknown>): ChangeDetails {
+	return {
+		draft: typeof entry.draft === 'boolean' ? entry.draft : undefined,
+		review: typeof entry.review === 'string' && REVIEW_DECISIONS.has(entry.review) ? entry.review as ChangeReviewDecision : undefined,
+		checks: typeof entry.checks === 'string' && CHECK_STATES.has(entry.checks) ? entry.checks as ChangeChecksState : undefined,
+	};
+}
@@ -0,0 +1,134 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type * as vscode from 'vscode';
+
+import { logMessage } from '../utils/commandLog';
+import type {
+	ChangeChecksState,
+	ChangeDetails,
+	ChangeDetailsResult,
+	ChangeReference,
+	ChangeReviewDecision,
+	ChangeStatusProvider,
+} from './types';
+
+const execFileAsync = promisify(execFile);
+const GH_BINARY = 'gh';
+const GH_TIMEOUT_MS = 15_000;
+/** Details are reused for this long, since the view refreshes on every ref change. */
+const CACHE_TTL_MS = 60_000;
+/** `gh` processes run at once, so repositories with many change requests do not spawn dozens. */
+const MAX_CONCURRENT_REQUESTS = 4;
+const JSON_FIELDS = 'isDraft,reviewDecision,statusCheckRollup';
+
+const REVIEW_DECISIONS: Readonly<Record<string, ChangeReviewDecision>> = {
+	APPROVED: 'approved',
+	CHANGES_REQUESTED: 'changesRequested',
+	REVIEW_REQUIRED: 'reviewRequired',
+};
+
+/** Check run conclusions and commit status states that count as failed. */
+const FAILED_STATES = new Set(['FAILURE', 'ERROR', 'CANCELLED', 'TIMED_OUT', 'ACTION_REQUIRED', 'STARTUP_FAILURE']);
+/** Check run conclusions and commit status states that count as passed; anything else is pending. */
+const PASSED_CONCLUSIONS = new Set(['SUCCESS', 'NEUTRAL', 'SKIPPED']);
+
+type CacheEntry = { details: ChangeDetails; fetchedAt: number };
+
+/**
+ * Reads draft, review and check state of open GitHub pull requests with `gh pr view`.
+ * Requires the GitHub CLI to be installed and authenticated.
+ */
+export class GitHubCliChangeStatusProvider implements ChangeStatusProvider {
+	readonly name = 'GitHub CLI';
+	private readonly cache = new Map<string, CacheEntry>();
+
+	async fetchDetails(folder: vscode.WorkspaceFolder, changes: ReadonlyArray<ChangeReference>): Promise<ChangeDetailsResult> {
+		// Draft, review and check state no longer matter once a change is merged or closed
+		const open = changes.filter((change) => change.status === undefined || change.status === 'open');
+		const details = new Map<string, ChangeDetails>();
+		let failure: unknown;
+		for (let start = 0; start < open.length; start += MAX_CONCURRENT_REQUESTS) {
+			const batch = open.slice(start, start + MAX_CONCURRENT_REQUESTS);
+			const results = await Promise.allSettled(batch.map((change) => this.fetchChange(folder, change.url)));
+			results.forEach((result, index) => {
+				if (result.status === 'fulfilled') {
+					details.set(batch[index].branch, result.value);
+				} else {
+					failure ??= result.reason;
+					logMessage(`Failed to load change status of ${batch[index].branch}: ${describeFailure(result.reason)}`);
+				}
+			});
+		}
+		// Only an error when nothing loaded, which is usually gh missing or logged out
+		if (failure !== undefined && details.size === 0) {
+			return { error: describeFailure(failure) };
+		}
+		return { value: details };
+	}
+
+	private async fetchChange(folder: vscode.WorkspaceFolder, url: string): Promise<ChangeDetails> {
+		const cached = this.cache.get(url);
+		if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+			return cached.details;
+		}
+
+		const { stdout } = await execFileAsync(GH_BINARY, ['pr', 'view', url, '--json', JSON_FIELDS], {
+			cwd: folder.uri.fsPath,
+			timeout: GH_TIMEOUT_MS,
+		});
+		const details = parsePullRequest(JSON.parse(stdout) as unknown);
+		this.cache.set(url, { details, fetchedAt: Date.now() });
+		return details;
+	}
+}
+
+/**
+ * Explains the usual setup problems (gh missing or logged out) instead of the raw process error.
+ */
+function describeFailure(error: unknown): string {
+	const { code, stderr } = (typeof error === 'object' && error !== null ? error : {}) as { code?: unknown; stderr?: unknown };
+	if (code === 'ENOENT') {
+		return `The GitHub CLI ('${GH_BINARY}') is not installed or not on PATH.`;
+	}
+	if (typeof stderr === 'string' && /gh auth login|not logged in/i.test(stderr)) {
+		return `The GitHub CLI is not authenticated. Run 'gh auth login' and refresh.`;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+function parsePullRequest(value: unknown): ChangeDetails {
+	if (typeof value !== 'object' || value === null) {
+		return {};
+	}
+	const record = value as Record<string, unknown>;
+	return {
+		draft: typeof record.isDraft === 'boolean' ? record.isDraft : undefined,
+		review: typeof record.reviewDecision === 'string' ? REVIEW_DECISIONS[record.reviewDecision] : undefined,
+		checks: Array.isArray(record.statusCheckRollup) ? rollUpChecks(record.statusCheckRollup) : undefined,
+	};
+}
+
+/**
+ * Combines check runs (`status`/`conclusion`) and commit statuses (`state`):
+ * any failure fails the rollup, otherwise anything unfinished keeps it pending.
+ */
+export function rollUpChecks(checks: ReadonlyArray<unknown>): ChangeChecksState | undefined {
+	if (checks.length === 0) {
+		return undefined;
+	}
+
+	let pending = false;
+	for (const check of checks) {
+		const record = (typeof check === 'object' && check !== null ? check : {}) as Record<string, unknown>;
+		const outcome = typeof record.conclusion === 'string' && record.conclusion.length > 0
+			? record.conclusion
+			: typeof record.state === 'string' ? record.state : undefined;
+		if (outcome && FAILED_STATES.has(outcome)) {
+			return 'failure';
+		}
+		if (!outcome || !PASSED_CONCLUSIONS.has(outcome)) {
+			pending = true;
+		}
+	}
+	return pending ? 'pending' : 'success';
+}
@@ -0,0 +1,20 @@
+import type { ChangeStatusConfig } from '../utils/config';
+import { FixtureChangeStatusProvider } from './fixture';
+import { GitHubCliChangeStatusProvider } from './githubCli';
+import type { ChangeStatusProvider } from './types';
+
+/**
+ * Creates the provider selected by the `git-spice.changeStatus.*` settings.
+ *
+ * @returns `undefined` when the lookup is turned off or the fixture source has no file configured
+ */
+export function createChangeStatusProvider(config: ChangeStatusConfig): ChangeStatusProvider | undefined {
+	switch (config.source) {
+		case 'github':
+			return new GitHubCliChangeStatusProvider();
+		case 'fixture':
+			return config.fixturePath ? new FixtureChangeStatusProvider(config.fixturePath) : undefined;
+		default:
+			return undefined;
+	}
+}
@@ -0,0 +1,39 @@
+import type * as vscode from 'vscode';
+
+import type { GitSpiceChangeStatus } from '../gitSpiceSchema';
+
+export type ChangeReviewDecision = 'approved' | 'changesRequested' | 'reviewRequired';
+
+/** Rollup of every CI check and commit status on the change's head commit. */
+export type ChangeChecksState = 'success' | 'failure' | 'pending';
+
+/**
+ * Review and CI state of a change request, beyond the id, URL and open/closed status git-spice reports.
+ * Fields are absent when the forge does not report them (e.g. a repository without CI).
+ */
+export type ChangeDetails = Readonly<{
+	draft?: boolean;
+	review?: ChangeReviewDecision;
+	checks?: ChangeChecksState;
+}>;
+
+export type ChangeReference = Readonly<{
+	branch: string;
+	/** Change id as git-spice reports it, e.g. "#123". */
+	id: string;
+	url: string;
+	/** Absent when git-spice did not report it. */
+	status?: GitSpiceChangeStatus;
+}>;
+
+/** Details keyed by branch name; changes the provider knows nothing about are left out. */
+export type ChangeDetailsResult = { value: Map<string, ChangeDetails> } | { error: string };
+
+/**
+ * Source of review and CI state for the change requests of a repository's branches.
+ */
+export interface ChangeStatusProvider {
+	/** Shown in logs and errors, e.g. "GitHub CLI". */
+	readonly name: string;
+	fetchDetails(folder: vscode.WorkspaceFolder, changes: ReadonlyArray<ChangeReference>): Promise<ChangeDetailsResult>;
+}
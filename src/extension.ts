@@ -3,32 +3,267 @@
 import * as vscode from 'vscode';
 
 import { StackViewProvider } from './stackView/StackViewProvider';
-import { execBranchCreate, execUp, execDown, execTrunk, execStackRestack, execStackSubmit } from './utils/gitSpice';
+import { StackStatusBar } from './stackView/statusBar';
+import { pickBranch } from './stackView/branchPicker';
+import { promptSubmitOptions } from './stackView/submitWizard';
+import { draftChangeText, editChangeText } from './stackView/changeEditor';
+import { buildStackSummary } from './stackView/stackSummary';
+import { buildDisplayState } from './stackView/state';
+import type { BranchViewModel, StackViewMode } from './stackView/types';
+import {
+	execBranchCreate,
+	execBranchCheckout,
+	execBranchSubmit,
+	execGitSpice,
+	execUp,
+	execDown,
+	execTrunk,
+	execTop,
+	execBottom,
+	execStackRestack,
+	execStackSubmit,
+	execGitSpiceVersion,
+	type BranchCommandResult,
+	type SubmitOptions,
+} from './utils/gitSpice';
+import { affectsChangeStatus, affectsGitSpiceBinary, getSubmitDefaults } from './utils/config';
+import { initializeCommandLog, showCommandLog, showErrorWithLog } from './utils/commandLog';
+import { RepositoryTracker } from './utils/repositories';
+import { OperationJournal } from './utils/journal';
+import { createOutputReporter } from './utils/progress';
+
+type NavigationTarget = 'up' | 'down' | 'top' | 'bottom' | 'trunk';
+
+type Navigation = Readonly<{
+	/** `count` is only used by up and down. */
+	run: (folder: vscode.WorkspaceFolder, count: number) => Promise<BranchCommandResult>;
+	/** Completes "Navigated ..." and "Failed to navigate ...". */
+	description: string;
+	item: vscode.QuickPickItem;
+}>;
+
+/** Order of the entries in the navigation quick pick. */
+const NAVIGATION_TARGETS: ReadonlyArray<NavigationTarget> = ['up', 'down', 'top', 'bottom', 'trunk'];
+
+const NAVIGATION: Readonly<Record<NavigationTarget, Navigation>> = {
+	up: { run: execUp, description: 'up the stack', item: { label: '$(arrow-up) Up', description: 'gs up' } },
+	down: { run: execDown, description: 'down the stack', item: { label: '$(arrow-down) Down', description: 'gs down' } },
+	top: { run: execTop, description: 'to the top of the stack', item: { label: '$(fold-up) Top', description: 'gs top' } },
+	bottom: { run: execBottom, description: 'to the bottom of the stack', item: { label: '$(fold-down) Bottom', description: 'gs bottom' } },
+	trunk: { run: execTrunk, description: 'to trunk', item: { label: '$(home) Trunk', description: 'gs trunk' } },
+};
 
 export function activate(context: vscode.ExtensionContext): void {
-	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-	const provider = new StackViewProvider(workspaceFolder, context.extensionUri);
+	const repositories = new RepositoryTracker();
+	const journal = new OperationJournal();
+	const provider = new StackViewProvider(repositories, journal, context.extensionUri);
+	provider.setViewMode('current');
+
+	/** Repository for palette commands: active editor, selected SCM repository, then the one shown in the view. */
+	const resolveFolder = (): vscode.WorkspaceFolder | undefined => {
+		const folder = repositories.resolveCommandRepository(provider.getActiveRepository());
+		if (!folder) {
+			void vscode.window.showErrorMessage('No git repository found');
+		}
+		return folder;
+	};
+
+	/** Source Control title actions pass the repository they were invoked on. */
+	const resolveScmFolder = (sourceControl?: vscode.SourceControl): vscode.WorkspaceFolder | undefined => {
+		const fromScm = sourceControl?.rootUri ? repositories.getRepository(sourceControl.rootUri.toString()) : undefined;
+		return fromScm ?? resolveFolder();
+	};
+
+	/** Tracked branches in tree order, or `undefined` after reporting why they could not be listed. */
+	const loadBranches = async (folder: vscode.WorkspaceFolder, mode: StackViewMode = 'all'): Promise<BranchViewModel[] | undefined> => {
+		const result = await execGitSpice(folder);
+		if ('error' in result) {
+			void showErrorWithLog(`Failed to list branches: ${result.error}`);
+			return undefined;
+		}
+		return buildDisplayState(result.value, undefined, undefined, mode).branches;
+	};
+
+	const checkout = async (folder: vscode.WorkspaceFolder, branch: string): Promise<void> => {
+		const result = await execBranchCheckout(folder, branch);
+		if ('error' in result) {
+			void showErrorWithLog(`Failed to check out ${branch}: ${result.error}`);
+		} else {
+			void vscode.window.showInformationMessage(`Checked out ${branch}`);
+		}
+		void provider.refresh();
+	};
+
+	/**
+	 * @param submit - Defaults to the `git-spice.submit.*` settings
+	 */
+	const submitStack = async (folder: vscode.WorkspaceFolder, submit?: SubmitOptions): Promise<void> => {
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Submitting current stack...',
+			cancellable: true,
+		}, async (progress, token) => {
+			const result = await execStackSubmit(folder, {
+				token,
+				onOutput: createOutputReporter(progress, provider.getStackBranches(folder), 'Pushing'),
+			}, submit);
+			if ('error' in result && result.cancelled) {
+				void vscode.window.showInformationMessage('Stack submit cancelled.');
+			} else if ('error' in result) {
+				void showErrorWithLog(`Failed to submit stack: ${result.error}`);
+			} else {
+				void vscode.window.showInformationMessage('Stack submitted successfully');
+			}
+			await provider.refresh();
+		});
+	};
+
+	/**
+	 * Submits the current stack branch by branch from the bottom up. The title and body of each
+	 * branch without a change request are edited right before it is submitted, so its stack summary
+	 * already links the change requests opened below it. Cancelling an editor stops the submit there.
+	 */
+	const submitStackWithEditedText = async (folder: vscode.WorkspaceFolder, submit: SubmitOptions, stackSummary: boolean): Promise<void> => {
+		let branches = await loadBranches(folder, 'current');
+		if (!branches) {
+			return;
+		}
+		// Parents come before their children, so every base is submitted before the branches on it
+		const stack = branches.filter((branch) => branch.stack !== undefined);
+		if (stack.length === 0) {
+			void vscode.window.showInformationMessage('The current branch is not part of a stack.');
+			return;
+		}
+
+		let submitted = false;
+		for (const branch of stack) {
+			let options = submit;
+			if (!branch.change) {
+				if (stackSummary && submitted) {
+					// Pick up the change requests the branches below just opened
+					branches = await loadBranches(folder, 'current');
+					if (!branches) {
+						await provider.refresh();
+						return;
+					}
+				}
+				const summary = stackSummary ? buildStackSummary(branches, branch.name) : undefined;
+				const text = await editChangeText(branch.name, await draftChangeText(folder, branch.name, branch.tree.parent, summary));
+				if (!text) {
+					void vscode.window.showInformationMessage('Stack submit cancelled.');
+					if (submitted) {
+						await provider.refresh();
+					}
+					return;
+				}
+				options = { ...submit, ...text };
+			}
+
+			const result = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: `Submitting ${branch.name}...`,
+				cancellable: true,
+			}, (progress, token) => execBranchSubmit(
+				folder,
+				branch.name,
+				{ token, onOutput: createOutputReporter(progress, [branch.name], 'Pushing') },
+				options,
+			));
+			submitted = true;
+			if ('error' in result) {
+				if (result.cancelled) {
+					void vscode.window.showInformationMessage('Stack submit cancelled.');
+				} else {
+					void showErrorWithLog(`Failed to submit ${branch.name}: ${result.error}`);
+				}
+				await provider.refresh();
+				return;
+			}
+		}
+		void vscode.window.showInformationMessage('Stack submitted successfully');
+		await provider.refresh();
+	};
+
+	const navigate = async (target: NavigationTarget, count = 1): Promise<void> => {
+		const folder = resolveFolder();
+		if (!folder) {
+			return;
+		}
+
+		if (target === 'up' && count === 1) {
+			// `gs up` needs a terminal to choose between several branches above, so ask here instead
+			const branches = await loadBranches(folder);
+			if (!branches) {
+				return;
+			}
+			const current = branches.find((branch) => branch.current);
+			if (current && current.tree.childCount > 1) {
+				const child = await pickBranch(
+					branches.filter((branch) => branch.tree.parent === current.name),
+					{ placeHolder: `Several branches are stacked on ${current.name}. Move up to` },
+				);
+				if (child) {
+					await checkout(folder, child);
+				}
+				return;
+			}
+		}
+
+		const navigation = NAVIGATION[target];
+		const description = count > 1 ? `${navigation.description} (${count} branches)` : navigation.description;
+		const result = await navigation.run(folder, count);
+		if ('error' in result) {
+			void showErrorWithLog(`Failed to navigate ${description}: ${result.error}`);
+		} else {
+			void vscode.window.showInformationMessage(`Navigated ${description}`);
+		}
+		void provider.refresh();
+	};
 
 	context.subscriptions.push(
+		initializeCommandLog(),
+		repositories,
+		journal,
 		provider,
+		new StackStatusBar(provider.onDidChangeStack),
 		vscode.window.registerWebviewViewProvider('gitSpice.branches', provider, {
 			webviewOptions: { retainContextWhenHidden: true }
 		}),
 		vscode.commands.registerCommand('git-spice.syncRepo', () => provider.sync()),
+		vscode.commands.registerCommand('git-spice.showLog', () => showCommandLog()),
+		vscode.commands.registerCommand('git-spice.undo', () => provider.undoLastOperation()),
+		vscode.commands.registerCommand('git-spice.commitCreate', async (sourceControl?: vscode.SourceControl) => {
+			const folder = resolveScmFolder(sourceControl);
+			if (folder) {
+				await provider.commitFromInputBox(folder, 'create');
+			}
+		}),
+		vscode.commands.registerCommand('git-spice.commitAmend', async (sourceControl?: vscode.SourceControl) => {
+			const folder = resolveScmFolder(sourceControl);
+			if (folder) {
+				await provider.commitFromInputBox(folder, 'amend');
+			}
+		}),
+		vscode.commands.registerCommand('git-spice.branchCreate', async () => {
+			const folder = resolveFolder();
+			if (folder) {
+				await provider.handleBranchCreatePrompt(folder);
+			}
+		}),
+		vscode.commands.registerCommand('git-spice.showAllStacks', () => provider.setViewMode('all')),
+		vscode.commands.registerCommand('git-spice.showCurrentStack', () => provider.setViewMode('current')),
 		vscode.commands.registerCommand('git-spice.branchCreateFromCommitMessage', async () => {
-			const gitExtension = vscode.extensions.getExtension('vscode.git')?.exports;
-			if (!gitExtension) {
-				void vscode.window.showErrorMessage('Git extension not found');
+			const folder = resolveFolder();
+			if (!folder) {
 				return;
 			}
 
-			const git = gitExtension.getAPI(1);
-			if (!git || git.repositories.length === 0) {
-				void vscode.window.showErrorMessage('No Git repository found');
+			const repository = repositories.getGitRepository(folder);
+			if (!repository) {
+				void vscode.window.showErrorMessage('Git extension not found');
 				return;
 			}
 
-			const repository = git.repositories[0];
 			const commitMessage = repository.inputBox.value;
 
 			if (!commitMessage || commitMessage.trim() === '') {
@@ -36,16 +271,10 @@ export function activate(context: vscode.ExtensionContext): void {
 				return;
 			}
 
-			const folder = vscode.workspace.workspaceFolders?.[0];
-			if (!folder) {
-				void vscode.window.showErrorMessage('No workspace folder found');
-				return;
-			}
-
 			// Execute git-spice branch create with auto-staging
 			const result = await execBranchCreate(folder, commitMessage);
 			if ('error' in result) {
-				void vscode.window.showErrorMessage(result.error);
+				void showErrorWithLog(result.error);
 			} else {
 				void vscode.window.showInformationMessage(`Created branch with message: ${commitMessage}`);
 				// Clear the commit message input box after successful branch creation
@@ -66,66 +295,73 @@ export function activate(context: vscode.ExtensionContext): void {
 				}, 100);
 			}
 		}),
-		vscode.commands.registerCommand('git-spice.up', async () => {
-			const folder = vscode.workspace.workspaceFolders?.[0];
-			if (!folder) {
-				void vscode.window.showErrorMessage('No workspace folder found');
-				return;
+		vscode.commands.registerCommand('git-spice.up', (args?: unknown) => navigate('up', readCount(args))),
+		vscode.commands.registerCommand('git-spice.down', (args?: unknown) => navigate('down', readCount(args))),
+		vscode.commands.registerCommand('git-spice.upBy', async () => {
+			const count = await promptCount('up');
+			if (count !== undefined) {
+				await navigate('up', count);
 			}
-
-			const result = await execUp(folder);
-			if ('error' in result) {
-				void vscode.window.showErrorMessage(`Failed to navigate up: ${result.error}`);
-			} else {
-				void vscode.window.showInformationMessage('Navigated up the stack');
+		}),
+		vscode.commands.registerCommand('git-spice.downBy', async () => {
+			const count = await promptCount('down');
+			if (count !== undefined) {
+				await navigate('down', count);
 			}
-			void provider.refresh();
 		}),
-		vscode.commands.registerCommand('git-spice.down', async () => {
-			const folder = vscode.workspace.workspaceFolders?.[0];
+		vscode.commands.registerCommand('git-spice.top', () => navigate('top')),
+		vscode.commands.registerCommand('git-spice.bottom', () => navigate('bottom')),
+		vscode.commands.registerCommand('git-spice.trunk', () => navigate('trunk')),
+		vscode.commands.registerCommand('git-spice.branchCheckout', async () => {
+			const folder = resolveFolder();
 			if (!folder) {
-				void vscode.window.showErrorMessage('No workspace folder found');
 				return;
 			}
 
-			const result = await execDown(folder);
-			if ('error' in result) {
-				void vscode.window.showErrorMessage(`Failed to navigate down: ${result.error}`);
-			} else {
-				void vscode.window.showInformationMessage('Navigated down the stack');
+			const branches = await loadBranches(folder);
+			if (!branches) {
+				return;
 			}
-			void provider.refresh();
-		}),
-		vscode.commands.registerCommand('git-spice.trunk', async () => {
-			const folder = vscode.workspace.workspaceFolders?.[0];
-			if (!folder) {
-				void vscode.window.showErrorMessage('No workspace folder found');
+			if (branches.length === 0) {
+				void vscode.window.showInformationMessage('No tracked branches to check out.');
 				return;
 			}
 
-			const result = await execTrunk(folder);
-			if ('error' in result) {
-				void vscode.window.showErrorMessage(`Failed to navigate to trunk: ${result.error}`);
-			} else {
-				void vscode.window.showInformationMessage('Navigated to trunk');
+			const branch = await pickBranch(branches, { title: 'Checkout Branch', placeHolder: 'Select a branch to check out' });
+			const current = branches.find((candidate) => candidate.current);
+			if (branch && branch !== current?.name) {
+				await checkout(folder, branch);
+			}
+		}),
+		vscode.commands.registerCommand('git-spice.navigate', async () => {
+			const items = NAVIGATION_TARGETS.map((target) => ({ ...NAVIGATION[target].item, target }));
+			const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Navigate the stack' });
+			if (picked) {
+				await navigate(picked.target);
 			}
-			void provider.refresh();
 		}),
 		vscode.commands.registerCommand('git-spice.stackRestack', async () => {
-			const folder = vscode.workspace.workspaceFolders?.[0];
+			const folder = resolveFolder();
 			if (!folder) {
-				void vscode.window.showErrorMessage('No workspace folder found');
 				return;
 			}
 
 			await vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
 				title: 'Restacking current stack...',
-				cancellable: false,
-			}, async () => {
-				const result = await execStackRestack(folder);
-				if ('error' in result) {
-					void vscode.window.showErrorMessage(`Failed to restack stack: ${result.error}`);
+				cancellable: true,
+			}, async (progress, token) => {
+				const result = await journal.record(folder, 'Restack stack', () => execStackRestack(folder, {
+					token,
+					onOutput: createOutputReporter(progress, provider.getStackBranches(folder), 'Restacking'),
+				}));
+				if ('error' in result && result.cancelled) {
+					void vscode.window.showInformationMessage('Stack restack cancelled.');
+				} else if ('error' in result) {
+					if (await provider.handleRebaseConflicts('Stack restack')) {
+						return;
+					}
+					void showErrorWithLog(`Failed to restack stack: ${result.error}`);
 				} else {
 					void vscode.window.showInformationMessage('Stack restacked successfully');
 				}
@@ -133,31 +369,106 @@ export function activate(context: vscode.ExtensionContext): void {
 			});
 		}),
 		vscode.commands.registerCommand('git-spice.stackSubmit', async () => {
-			const folder = vscode.workspace.workspaceFolders?.[0];
+			const folder = resolveFolder();
+			if (folder) {
+				await submitStack(folder);
+			}
+		}),
+		vscode.commands.registerCommand('git-spice.stackSubmitWithOptions', async () => {
+			const folder = resolveFolder();
 			if (!folder) {
-				void vscode.window.showErrorMessage('No workspace folder found');
 				return;
 			}
 
-			await vscode.window.withProgress({
-				location: vscode.ProgressLocation.Notification,
-				title: 'Submitting current stack...',
-				cancellable: false,
-			}, async () => {
-				const result = await execStackSubmit(folder);
-				if ('error' in result) {
-					void vscode.window.showErrorMessage(`Failed to submit stack: ${result.error}`);
-				} else {
-					void vscode.window.showInformationMessage('Stack submitted successfully');
-				}
-				await provider.refresh();
+			const defaults = getSubmitDefaults(folder);
+			const result = await promptSubmitOptions({
+				target: 'current stack',
+				multipleBranches: true,
+				defaults,
 			});
+			if (result?.editText) {
+				await submitStackWithEditedText(folder, result.submit, defaults.stackSummary);
+			} else if (result) {
+				await submitStack(folder, result.submit);
+			}
+		}),
+		vscode.commands.registerCommand('git-spice.copyStackSummary', async () => {
+			const folder = resolveFolder();
+			if (!folder) {
+				return;
+			}
+
+			const branches = await loadBranches(folder, 'current');
+			if (!branches) {
+				return;
+			}
+			const current = branches.find((branch) => branch.current);
+			if (!current || current.stack === undefined) {
+				void vscode.window.showInformationMessage('The current branch is not part of a stack.');
+				return;
+			}
+
+			await vscode.env.clipboard.writeText(buildStackSummary(branches, current.name));
+			void vscode.window.showInformationMessage('Copied the stack summary to the clipboard.');
 		}),
-		vscode.workspace.onDidChangeWorkspaceFolders(() => {
-			provider.setWorkspaceFolder(vscode.workspace.workspaceFolders?.[0]);
-			void provider.refresh();
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (affectsGitSpiceBinary(event)) {
+				void verifyGitSpiceBinary();
+				void provider.refresh();
+			}
+			if (affectsChangeStatus(event)) {
+				provider.reloadChangeStatusProvider();
+			}
 		}),
 	);
+
+	void repositories.initialize();
+	void verifyGitSpiceBinary();
+}
+
+/**
+ * Reads the branch count of up/down, passed by keybindings as `"args": 3` or `"args": { "count": 3 }`.
+ */
+function readCount(args: unknown): number {
+	if (typeof args === 'number') {
+		return args;
+	}
+	if (typeof args === 'object' && args !== null && typeof (args as { count?: unknown }).count === 'number') {
+		return (args as { count: number }).count;
+	}
+	return 1;
+}
+
+async function promptCount(direction: 'up' | 'down'): Promise<number | undefined> {
+	const input = await vscode.window.showInputBox({
+		prompt: `Number of branches to move ${direction}`,
+		value: '2',
+		validateInput: (value) => (/^[1-9]\d*$/.test(value.trim()) ? null : 'Enter a positive whole number.'),
+	});
+	return input === undefined ? undefined : Number(input.trim());
+}
+
+/**
+ * Checks `gs --version` and, when the binary is missing, not git-spice, or too old,
+ * shows an error with actions to fix the setting or install git-spice.
+ */
+async function verifyGitSpiceBinary(): Promise<void> {
+	const result = await execGitSpiceVersion();
+	if (!('error' in result)) {
+		return;
+	}
+
+	const openSettings = 'Configure Binary Path';
+	const install = result.kind === 'outdated' ? 'Upgrade git-spice' : 'Install git-spice';
+	const hint = result.kind === 'outdated'
+		? ''
+		: ` Set 'git-spice.binaryPath' if it is installed under another name (for example 'git-spice') or outside PATH.`;
+	const choice = await vscode.window.showErrorMessage(`${result.error}${hint}`, openSettings, install);
+	if (choice === openSettings) {
+		void vscode.commands.executeCommand('workbench.action.openSettings', 'git-spice.binaryPath');
+	} else if (choice === install) {
+		void vscode.env.openExternal(vscode.Uri.parse('https://abhinav.github.io/git-spice/start/install/'));
+	}
 }
 
 export function deactivate(): void {
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 
-import { buildDisplayState } from './state';
-import type { BranchRecord, BranchReorderInfo } from './types';
+import { buildDisplayState, collectDownstack, collectUpstack } from './state';
+import type { BranchRecord, BranchReorderInfo, DisplayState, StackViewMode } from './types';
 import type { WebviewMessage } from './webviewTypes';
 import {
 	execGitSpice,
@@ -16,20 +16,118 @@ import {
 	execBranchSubmit,
 	execCommitFixup,
 	execBranchSplit,
+	execBranchOnto,
+	execUpstackOnto,
 	execRepoSync,
+	execRebaseContinue,
+	execRebaseAbort,
+	execBranchCreateWithOptions,
+	execCommitCreate,
+	execCommitAmend,
+	execUpstackRestack,
+	execUpstackSubmit,
+	execDownstackSubmit,
+	execDownstackEditApply,
+	execBranchDelete,
+	execBranchTrack,
 	type BranchCommandResult,
+	type CommandRunOptions,
 } from '../utils/gitSpice';
+import { getRebaseState, guessBranchBase, listLocalBranches, type RebaseState } from '../utils/git';
+import { logMessage, showErrorWithLog } from '../utils/commandLog';
+import { createOutputReporter } from '../utils/progress';
+import { isRepositoryBusy, onDidChangeBusy } from '../utils/operationQueue';
+import type { OperationJournal } from '../utils/journal';
+import { promptBranchCreateOptions } from './branchCreateWizard';
+import { promptSubmitOptions } from './submitWizard';
+import { findSyncDeletionCandidates, promptSyncPlan } from './syncPreview';
+import { draftChangeText, editChangeText } from './changeEditor';
+import { buildStackSummary } from './stackSummary';
+import { editInEditor } from '../utils/editorPrompt';
 import { readMediaFile, readDistFile } from '../utils/readFileSync';
+import { countTrackedChanges, type RepositoryTracker } from '../utils/repositories';
+import { getChangeStatusConfig, getSubmitDefaults } from '../utils/config';
+import { createChangeStatusProvider } from '../changeStatus/providers';
+import type { ChangeDetails } from '../changeStatus/types';
+
+type BranchCommandFunction = (
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	options?: CommandRunOptions,
+) => Promise<BranchCommandResult>;
+
+/** Branch commands that can run long enough to be worth cancelling. */
+const CANCELLABLE_BRANCH_COMMANDS = new Set(['restack', 'submit']);
+/** Branch commands that rewrite branches or tracking state and are recorded for undo. */
+const JOURNALED_BRANCH_COMMANDS = new Set(['untrack', 'fold', 'squash', 'edit', 'restack']);
+
+type ScopedCommand = Readonly<{
+	scope: 'upstack' | 'downstack';
+	action: 'restack' | 'submit';
+	run: BranchCommandFunction;
+}>;
+
+const SCOPED_COMMANDS: Readonly<Record<string, ScopedCommand>> = {
+	upstackRestack: { scope: 'upstack', action: 'restack', run: execUpstackRestack },
+	upstackSubmit: { scope: 'upstack', action: 'submit', run: execUpstackSubmit },
+	downstackSubmit: { scope: 'downstack', action: 'submit', run: execDownstackSubmit },
+};
+
+/**
+ * Last loaded git-spice state of one repository.
+ */
+type RepositoryStackModel = {
+	branches: BranchRecord[];
+	untrackedBranches: string[];
+	lastError: string | undefined;
+	rebaseState: RebaseState | undefined;
+	changeDetails: Map<string, ChangeDetails>;
+};
 
 export class StackViewProvider implements vscode.WebviewViewProvider {
 	private view!: vscode.WebviewView; // definite assignment assertion - set in resolveWebviewView
 	private branches: BranchRecord[] = [];
+	/** Local git branches that git-spice does not track. */
+	private untrackedBranches: string[] = [];
 	private lastError: string | undefined;
 	private fileWatcher: vscode.FileSystemWatcher | undefined;
 	private pendingReorder: BranchReorderInfo | null = null;
-
-	constructor(private workspaceFolder: vscode.WorkspaceFolder | undefined, private readonly extensionUri: vscode.Uri) {
-		// No initialization here - everything happens after resolveWebviewView
+	private viewMode: StackViewMode = 'current';
+	private rebaseState: RebaseState | undefined;
+	/** Review and CI state by branch name, loaded after the branches. */
+	private changeDetails = new Map<string, ChangeDetails>();
+	private changeStatusProvider = createChangeStatusProvider(getChangeStatusConfig());
+	/** Set once a change status failure was shown, so every refresh doesn't repeat it. */
+	private changeStatusFailureShown = false;
+	/** Repository shown in the view; commands from the webview run against it. */
+	private workspaceFolder: vscode.WorkspaceFolder | undefined;
+	private readonly models = new Map<string, RepositoryStackModel>();
+	private readonly listeners: vscode.Disposable[];
+	private readonly onDidChangeStackEmitter = new vscode.EventEmitter<DisplayState>();
+	/**
+	 * Fires with the current branch's stack of the active repository whenever it is reloaded,
+	 * whether or not the view is visible. Unlike the view, it ignores the "all stacks" mode.
+	 */
+	readonly onDidChangeStack = this.onDidChangeStackEmitter.event;
+
+	constructor(
+		private readonly repositories: RepositoryTracker,
+		private readonly journal: OperationJournal,
+		private readonly extensionUri: vscode.Uri,
+	) {
+		this.listeners = [
+			repositories.onDidChange(() => this.syncRepositories()),
+			journal.onDidChange((folder) => {
+				if (folder.uri.toString() === this.workspaceFolder?.uri.toString()) {
+					this.pushState();
+				}
+			}),
+			onDidChangeBusy((event) => {
+				if (event.cwd === this.workspaceFolder?.uri.fsPath) {
+					this.pushState();
+				}
+			}),
+		];
 	}
 
 	async resolveWebviewView(webviewView: vscode.WebviewView): Promise<void> {
@@ -52,6 +150,14 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 				case 'refresh':
 					void this.refresh();
 					return;
+				case 'selectRepository':
+					if (typeof message.repository === 'string') {
+						const folder = this.repositories.getRepository(message.repository);
+						if (folder) {
+							this.showRepository(folder);
+						}
+					}
+					return;
 				case 'openChange':
 					if (typeof message.url === 'string') {
 						void vscode.env.openExternal(vscode.Uri.parse(message.url));
@@ -69,7 +175,7 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 					return;
 				case 'branchDrop':
 					if (typeof message.source === 'string' && typeof message.target === 'string') {
-						void this.handleBranchDrop(message.source, message.target);
+						void this.handleBranchDrop(message.source, message.target, message.upstack === true);
 					}
 					return;
 				case 'branchReorder':
@@ -132,6 +238,11 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 						void this.handleBranchCommandInternal('submit', message.branchName, execBranchSubmit);
 					}
 					return;
+				case 'branchSubmitPrompt':
+					if (typeof message.branchName === 'string') {
+						void this.handleBranchSubmitPrompt(message.branchName);
+					}
+					return;
 				case 'commitCopySha':
 					if (typeof message.sha === 'string') {
 						void this.handleCommitCopySha(message.sha);
@@ -147,30 +258,160 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 						void this.handleCommitSplit(message.sha, message.branchName);
 					}
 					return;
+				case 'rebaseContinue':
+					void this.handleRebaseContinue();
+					return;
+				case 'rebaseAbort':
+					void this.handleRebaseAbort();
+					return;
+				case 'undo':
+					void this.undoLastOperation();
+					return;
+				case 'upstackRestack':
+				case 'upstackSubmit':
+				case 'downstackSubmit':
+					if (typeof message.branchName === 'string') {
+						void this.handleScopedCommand(SCOPED_COMMANDS[message.type], message.branchName);
+					}
+					return;
+				case 'branchDelete':
+					if (typeof message.branchName === 'string') {
+						void this.handleBranchDelete(message.branchName);
+					}
+					return;
+				case 'branchTrack':
+					if (typeof message.branchName === 'string') {
+						void this.handleBranchTrack(message.branchName);
+					}
+					return;
+				case 'branchTrackAll':
+					void this.handleBranchTrackAll();
+					return;
+				case 'downstackEdit':
+					if (typeof message.branchName === 'string') {
+						void this.handleDownstackEdit(message.branchName);
+					}
+					return;
+				case 'upstackOntoPrompt':
+					if (typeof message.branchName === 'string') {
+						void this.handleUpstackOntoPrompt(message.branchName);
+					}
+					return;
+				case 'branchCreatePrompt':
+					void this.handleBranchCreatePrompt();
+					return;
+				case 'openConflict':
+					if (typeof message.path === 'string') {
+						void this.handleOpenConflict(message.path);
+					}
+					return;
 				default:
 					return;
 			}
 		});
 
+		this.syncRepositories();
 		this.setupFileWatcher();
 		void this.refresh();
 	}
 
-	setWorkspaceFolder(folder: vscode.WorkspaceFolder | undefined): void {
+	getActiveRepository(): vscode.WorkspaceFolder | undefined {
+		return this.workspaceFolder;
+	}
+
+	/**
+	 * Returns the branches of the current branch's stack from the bottom up, excluding trunk,
+	 * which is the order stack commands visit them in. Empty when `folder` is not the
+	 * repository shown in the view, since only that repository's branches are loaded.
+	 */
+	getStackBranches(folder: vscode.WorkspaceFolder | undefined = this.workspaceFolder): string[] {
+		if (!folder || folder.uri.toString() !== this.workspaceFolder?.uri.toString()) {
+			return [];
+		}
+		const current = this.branches.find((branch) => branch.current);
+		if (!current) {
+			return [];
+		}
+
+		return [...collectDownstack(current.name, this.branches), ...collectUpstack(current.name, this.branches)];
+	}
+
+	/**
+	 * Switches the view to another repository, showing its cached stack model until the refresh completes.
+	 */
+	showRepository(folder: vscode.WorkspaceFolder | undefined): void {
+		if (folder?.uri.toString() === this.workspaceFolder?.uri.toString()) {
+			return;
+		}
+
 		this.workspaceFolder = folder;
+		this.pendingReorder = null;
+		const cached = folder ? this.models.get(folder.uri.toString()) : undefined;
+		this.branches = cached?.branches ?? [];
+		this.untrackedBranches = cached?.untrackedBranches ?? [];
+		this.lastError = cached?.lastError;
+		this.rebaseState = cached?.rebaseState;
+		this.changeDetails = cached?.changeDetails ?? new Map();
+		this.pushState();
+
 		this.setupFileWatcher();
 		void this.refresh();
 	}
 
+	/**
+	 * Reconciles the view with the repositories currently open: drops models of closed
+	 * repositories and picks a new repository when the shown one went away.
+	 */
+	private syncRepositories(): void {
+		const available = this.repositories.getRepositories();
+		const ids = new Set(available.map((folder) => folder.uri.toString()));
+		for (const id of this.models.keys()) {
+			if (!ids.has(id)) {
+				this.models.delete(id);
+			}
+		}
+
+		const current = this.workspaceFolder ? this.repositories.getRepository(this.workspaceFolder.uri.toString()) : undefined;
+		if (current) {
+			this.workspaceFolder = current;
+			this.pushState();
+			return;
+		}
+		this.showRepository(this.repositories.resolveCommandRepository());
+	}
+
+	/**
+	 * Switches between showing the current branch's stack and every tracked stack.
+	 */
+	setViewMode(mode: StackViewMode): void {
+		this.viewMode = mode;
+		void vscode.commands.executeCommand('setContext', 'gitSpice.viewMode', mode);
+		if (this.view) {
+			this.pushState();
+		}
+	}
+
 	async refresh(): Promise<void> {
 		if (!this.workspaceFolder) {
 			this.branches = [];
-			this.lastError = 'Open a workspace folder to view git-spice stacks.';
+			this.untrackedBranches = [];
+			this.rebaseState = undefined;
+			this.changeDetails = new Map();
+			this.lastError = 'Open a folder containing a git repository to view git-spice stacks.';
 			this.pushState();
 			return;
 		}
 
-		const result = await execGitSpice(this.workspaceFolder);
+		const folder = this.workspaceFolder;
+		const [result, rebaseResult, localResult] = await Promise.all([
+			execGitSpice(folder),
+			getRebaseState(folder),
+			listLocalBranches(folder),
+		]);
+		if (folder !== this.workspaceFolder) {
+			// The user switched repositories while this refresh was running
+			return;
+		}
 		if ('error' in result) {
 			this.branches = [];
 			this.lastError = result.error;
@@ -179,39 +420,175 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 			this.lastError = undefined;
 		}
 
+		if ('error' in localResult || 'error' in result) {
+			this.untrackedBranches = [];
+		} else {
+			const tracked = new Set(this.branches.map((branch) => branch.name));
+			this.untrackedBranches = localResult.value.filter((name) => !tracked.has(name)).sort();
+		}
+
+		if ('error' in rebaseResult) {
+			logMessage(`Failed to read rebase state: ${rebaseResult.error}`);
+			this.rebaseState = undefined;
+		} else {
+			this.rebaseState = rebaseResult.value;
+		}
+
+		this.models.set(folder.uri.toString(), {
+			branches: this.branches,
+			untrackedBranches: this.untrackedBranches,
+			lastError: this.lastError,
+			rebaseState: this.rebaseState,
+			changeDetails: this.changeDetails,
+		});
+		this.pushState();
+		void this.loadChangeDetails(folder, this.branches);
+	}
+
+	/**
+	 * Re-creates the change status provider after its settings changed and reloads the details.
+	 */
+	reloadChangeStatusProvider(): void {
+		this.changeStatusProvider = createChangeStatusProvider(getChangeStatusConfig());
+		this.changeStatusFailureShown = false;
+		this.changeDetails = new Map();
+		void this.refresh();
+	}
+
+	/**
+	 * Fetches review and CI state for the branches' change requests. Runs after the branches are
+	 * shown so a slow forge never delays the view; results for a stale branch list are dropped.
+	 */
+	private async loadChangeDetails(folder: vscode.WorkspaceFolder, branches: BranchRecord[]): Promise<void> {
+		const provider = this.changeStatusProvider;
+		const changes = branches.flatMap((branch) => branch.change ? [{ branch: branch.name, id: branch.change.id, url: branch.change.url, status: branch.change.status }] : []);
+		if (!provider || changes.length === 0) {
+			return;
+		}
+
+		const result = await provider.fetchDetails(folder, changes);
+		if (folder !== this.workspaceFolder || branches !== this.branches) {
+			return;
+		}
+		if ('error' in result) {
+			const message = `Failed to load change status from ${provider.name}: ${result.error}`;
+			logMessage(message);
+			// Shown once until loading succeeds again or the provider setting changes
+			if (!this.changeStatusFailureShown) {
+				this.changeStatusFailureShown = true;
+				void showErrorWithLog(message);
+			}
+			return;
+		}
+
+		this.changeStatusFailureShown = false;
+		this.changeDetails = result.value;
+		const model = this.models.get(folder.uri.toString());
+		if (model) {
+			model.changeDetails = result.value;
+		}
 		this.pushState();
 	}
 
+	/**
+	 * Checks whether a failed operation left a rebase paused on conflicts. If so, shows a
+	 * "Restack paused" notification with Continue/Abort actions instead of the raw CLI error.
+	 *
+	 * @param operation - Human readable name of the operation that failed
+	 * @returns true when a paused rebase was found and reported
+	 */
+	public async handleRebaseConflicts(operation: string): Promise<boolean> {
+		await this.refresh();
+		const rebase = this.rebaseState;
+		if (!rebase) {
+			return false;
+		}
+
+		const fileCount = rebase.conflictedFiles.length;
+		const subject = rebase.branch ? ` while rebasing ${rebase.branch}` : '';
+		const detail = fileCount > 0
+			? `${fileCount} conflicted file${fileCount === 1 ? '' : 's'}: ${rebase.conflictedFiles.join(', ')}`
+			: 'Resolve the rebase and continue';
+
+		void vscode.window.showWarningMessage(
+			`${operation} paused${subject}. ${detail}.`,
+			'Resolve Conflicts',
+			'Continue',
+			'Abort',
+		).then((choice) => {
+			if (choice === 'Resolve Conflicts') {
+				void this.openConflicts(rebase.conflictedFiles);
+			} else if (choice === 'Continue') {
+				void this.handleRebaseContinue();
+			} else if (choice === 'Abort') {
+				void this.handleRebaseAbort();
+			}
+		});
+		return true;
+	}
+
+	/**
+	 * Runs `gs repo sync`. Branches with merged or closed change requests are previewed first, so
+	 * the user picks all deletions up front; sync prompts about them are answered from that choice.
+	 * Branches sync finds beyond the preview are still confirmed one at a time.
+	 */
 	async sync(): Promise<void> {
 		if (!this.workspaceFolder) {
 			void vscode.window.showErrorMessage('No workspace folder available.');
 			return;
 		}
 
+		const candidates = findSyncDeletionCandidates(await this.loadChangeRequestStatus(this.workspaceFolder));
+		const plan = candidates.length > 0 ? await promptSyncPlan(candidates) : { previewed: new Set<string>(), deletions: new Set<string>() };
+		if (!plan) {
+			return;
+		}
+
 		await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
 			title: 'Syncing repository with remote...',
-			cancellable: false,
-		}, async (progress) => {
+			cancellable: true,
+		}, async (progress, token) => {
 			try {
 				// Execute repo sync with interactive prompt callback
-				const result = await execRepoSync(
-					this.workspaceFolder!,
-					async (branchName: string) => {
-						// Show VSCode confirmation dialog for each branch deletion
-						const answer = await vscode.window.showWarningMessage(
-							`Branch '${branchName}' has a closed pull request. Delete this branch?`,
-							{ modal: true },
-							'Yes',
-							'No',
-						);
-						return answer === 'Yes';
-					}
-				);
-
-				if ('error' in result) {
-					console.error('🔄 Repository sync failed:', result.error);
-					void vscode.window.showErrorMessage(`Failed to sync repository: ${result.error}`);
+				const folder = this.workspaceFolder!;
+				const result = await this.journal.record(folder, 'Repository sync', () => execRepoSync(
+					folder,
+					{
+						deleteBranch: async (branchName) => {
+							if (plan.previewed.has(branchName)) {
+								return plan.deletions.has(branchName);
+							}
+							// Not in the preview: sync found it after fetching, so ask now
+							const answer = await vscode.window.showWarningMessage(
+								`Branch '${branchName}' has a closed pull request. Delete this branch?`,
+								{ modal: true },
+								'Yes',
+								'No',
+							);
+							return answer === 'Yes';
+						},
+						pickBase: async (branchName, candidates) => vscode.window.showQuickPick(candidates, {
+							title: 'Sync Repository',
+							placeHolder: `Select the new base for ${branchName}`,
+							ignoreFocusOut: true,
+						}),
+						confirmForcePush: async (branchName) => {
+							const answer = await vscode.window.showWarningMessage(
+								`Branch '${branchName}' has diverged from its remote branch. Force push it?`,
+								{ modal: true },
+								'Force Push',
+							);
+							return answer === 'Force Push';
+						},
+					},
+					{ token, onOutput: createOutputReporter(progress, this.branches.map((branch) => branch.name), 'Syncing') },
+				));
+
+				if ('error' in result && result.cancelled) {
+					void vscode.window.showInformationMessage('Repository sync cancelled.');
+				} else if ('error' in result) {
+					void showErrorWithLog(`Failed to sync repository: ${result.error}`);
 				} else {
 					const { deletedBranches, syncedBranches } = result.value;
 					let message = `Repository synced successfully.`;
@@ -231,23 +608,286 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 				await this.refresh();
 			} catch (error) {
 				const message = error instanceof Error ? error.message : String(error);
-				console.error('🔄 Unexpected error during repository sync:', message);
-				void vscode.window.showErrorMessage(`Unexpected error during repository sync: ${message}`);
+				logMessage(`Unexpected error during repository sync: ${message}`);
+				void showErrorWithLog(`Unexpected error during repository sync: ${message}`);
 			}
 		});
 	}
 
+	/**
+	 * Loads the branches with the forge's current change request states (`--cr-status`), which the
+	 * sync preview needs: the regular listing rarely includes them. Falls back to the shown branches.
+	 */
+	private async loadChangeRequestStatus(folder: vscode.WorkspaceFolder): Promise<BranchRecord[]> {
+		const result = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Checking change requests...',
+			cancellable: false,
+		}, () => execGitSpice(folder, { changeStatus: true }));
+		if ('error' in result) {
+			logMessage(`Failed to load change request status for the sync preview: ${result.error}`);
+			return this.branches;
+		}
+		return result.value;
+	}
+
+	/**
+	 * Restores the branch heads and git-spice metadata recorded before the last journaled operation.
+	 * Asks for confirmation, warning when refs changed after the operation (those changes are lost too).
+	 */
+	async undoLastOperation(): Promise<void> {
+		if (!this.workspaceFolder) {
+			void vscode.window.showErrorMessage('No workspace folder available.');
+			return;
+		}
+		const folder = this.workspaceFolder;
+		const entry = this.journal.peek(folder);
+		if (!entry) {
+			void vscode.window.showInformationMessage('Nothing to undo.');
+			return;
+		}
+
+		const describeRefs = (refs: ReadonlyArray<string>): string => refs
+			.map((ref) => ref.replace(/^refs\/heads\//, ''))
+			.join(', ');
+		const changedSince = await this.journal.changedSince(folder, entry);
+		const detail = [
+			`Restores: ${describeRefs(entry.changedRefs) || 'HEAD'}.`,
+			changedSince.length > 0
+				? `These refs changed after the operation and will be reset as well: ${describeRefs(changedSince)}.`
+				: undefined,
+			'Remote branches and change requests are not affected.',
+		].filter(Boolean).join('\n\n');
+
+		const confirmation = await vscode.window.showWarningMessage(
+			`Undo "${entry.label}"?`,
+			{ modal: true, detail },
+			'Undo',
+		);
+		if (confirmation !== 'Undo') {
+			return;
+		}
+
+		const result = await this.journal.undo(folder);
+		if ('error' in result) {
+			void showErrorWithLog(`Failed to undo ${entry.label}: ${result.error}`);
+		} else {
+			void vscode.window.showInformationMessage(`Undid ${entry.label}.`);
+		}
+		await this.refresh();
+	}
+
 	private pushState(): void {
-		// No undefined check needed - only called when view exists
-		const state = buildDisplayState(this.branches, this.lastError, this.pendingReorder || undefined);
+		this.onDidChangeStackEmitter.fire(buildDisplayState(this.branches, this.lastError, undefined, 'current', this.changeDetails));
+
+		// Repository changes can arrive before the view is resolved; the 'ready' message pushes state later
+		if (!this.view) {
+			return;
+		}
+		const state: DisplayState = buildDisplayState(this.branches, this.lastError, this.pendingReorder || undefined, this.viewMode, this.changeDetails);
+		state.repositories = this.repositories.getRepositories().map((folder) => ({
+			id: folder.uri.toString(),
+			name: folder.name,
+			path: folder.uri.fsPath,
+		}));
+		state.activeRepository = this.workspaceFolder?.uri.toString();
+		state.busy = this.workspaceFolder ? isRepositoryBusy(this.workspaceFolder.uri.fsPath) : false;
+		state.untrackedBranches = [...this.untrackedBranches];
+		const lastOperation = this.workspaceFolder ? this.journal.peek(this.workspaceFolder) : undefined;
+		if (lastOperation) {
+			state.lastOperation = { label: lastOperation.label, timestamp: lastOperation.timestamp };
+		}
+		void vscode.commands.executeCommand('setContext', 'gitSpice.canUndo', lastOperation !== undefined);
+		if (this.rebaseState) {
+			state.rebase = {
+				branch: this.rebaseState.branch,
+				conflictedFiles: [...this.rebaseState.conflictedFiles],
+			};
+		}
 		void this.view.webview.postMessage({ type: 'state', payload: state });
 	}
 
-	private async handleBranchDrop(source: string, target: string): Promise<void> {
-		// TODO: Implement branch drop functionality
-		await vscode.window.showInformationMessage(
-			`Drag-and-drop planned: move ${source} onto ${target}`,
+	/**
+	 * Resumes a paused restack with `gs rebase continue`. The rebase may stop again on the
+	 * next conflicting commit, in which case the banner stays up with the new file list.
+	 */
+	private async handleRebaseContinue(): Promise<void> {
+		if (!this.workspaceFolder) {
+			void vscode.window.showErrorMessage('No workspace folder available.');
+			return;
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Continuing restack...',
+			cancellable: false,
+		}, async () => {
+			const result = await execRebaseContinue(this.workspaceFolder!);
+			if ('error' in result) {
+				if (!(await this.handleRebaseConflicts('Restack'))) {
+					void showErrorWithLog(`Failed to continue rebase: ${result.error}`);
+				}
+				return;
+			}
+
+			await this.refresh();
+			if (this.rebaseState) {
+				void this.handleRebaseConflicts('Restack');
+			} else {
+				void vscode.window.showInformationMessage('Restack completed.');
+			}
+		});
+	}
+
+	private async handleRebaseAbort(): Promise<void> {
+		if (!this.workspaceFolder) {
+			void vscode.window.showErrorMessage('No workspace folder available.');
+			return;
+		}
+
+		const confirmation = await vscode.window.showWarningMessage(
+			'Abort the paused restack?',
+			{ modal: true, detail: 'The branch being rebased is returned to its state before the restack started.' },
+			'Abort Rebase',
+		);
+		if (confirmation !== 'Abort Rebase') {
+			return;
+		}
+
+		const result = await execRebaseAbort(this.workspaceFolder);
+		if ('error' in result) {
+			void showErrorWithLog(`Failed to abort rebase: ${result.error}`);
+		} else {
+			void vscode.window.showInformationMessage('Restack aborted.');
+		}
+		await this.refresh();
+	}
+
+	/**
+	 * Opens conflicted files in the merge editor. With several files, a quick pick (all of them
+	 * pre-selected) chooses which ones to open.
+	 */
+	private async openConflicts(conflictedFiles: ReadonlyArray<string>): Promise<void> {
+		let files = [...conflictedFiles];
+		if (files.length > 1) {
+			const picked = await vscode.window.showQuickPick(
+				files.map((file) => ({ label: file, picked: true })),
+				{ title: 'Resolve Conflicts', placeHolder: 'Select the conflicted files to open', canPickMany: true },
+			);
+			files = picked?.map((item) => item.label) ?? [];
+		}
+		for (const file of files) {
+			await this.handleOpenConflict(file);
+		}
+	}
+
+	/**
+	 * Opens a conflicted file in the VS Code merge editor.
+	 *
+	 * @param relativePath - Path of the file relative to the repository root
+	 */
+	private async handleOpenConflict(relativePath: string): Promise<void> {
+		if (!this.workspaceFolder) {
+			return;
+		}
+
+		const uri = vscode.Uri.joinPath(this.workspaceFolder.uri, relativePath);
+		try {
+			await vscode.commands.executeCommand('git.openMergeEditor', uri);
+		} catch (error) {
+			// Fall back to the plain editor (with inline conflict markers) if the merge editor is unavailable
+			logMessage(`Failed to open the merge editor for ${relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+			await vscode.window.showTextDocument(uri);
+		}
+	}
+
+	/**
+	 * Handles a branch card dropped onto another branch card.
+	 * Moves the source branch onto the target with `gs branch onto`, or moves the source
+	 * together with its upstack with `gs upstack onto` when `upstack` is set.
+	 *
+	 * @param source - The branch that was dragged
+	 * @param target - The branch it was dropped onto (the new base)
+	 * @param upstack - Whether to move the whole upstack of the source branch
+	 */
+	private async handleBranchDrop(source: string, target: string, upstack: boolean): Promise<void> {
+		const sourceName = typeof source === 'string' ? source.trim() : '';
+		const targetName = typeof target === 'string' ? target.trim() : '';
+		if (sourceName.length === 0 || targetName.length === 0) {
+			logMessage(`Invalid branch names provided to handleBranchDrop: ${JSON.stringify({ source, target })}`);
+			return;
+		}
+
+		if (sourceName === targetName) {
+			return;
+		}
+
+		if (!this.workspaceFolder) {
+			void vscode.window.showErrorMessage('No workspace folder available.');
+			return;
+		}
+
+		const sourceBranch = this.branches.find((branch) => branch.name === sourceName);
+		if (sourceBranch?.down?.name === targetName && !upstack) {
+			void vscode.window.showInformationMessage(`Branch ${sourceName} is already based on ${targetName}.`);
+			return;
+		}
+
+		const upstackNames = collectUpstack(sourceName, this.branches);
+		if (upstack && upstackNames.includes(targetName)) {
+			void vscode.window.showErrorMessage(`Cannot move ${sourceName} onto ${targetName}: ${targetName} is in its upstack.`);
+			return;
+		}
+
+		// `gs branch onto` moves only the branch itself; its direct children are restacked onto its old base.
+		const rebased = upstack
+			? [sourceName, ...upstackNames]
+			: [sourceName, ...(sourceBranch?.ups ?? []).map((link) => link.name)];
+		const operation = upstack ? 'upstack onto' : 'branch onto';
+
+		const confirmation = await vscode.window.showWarningMessage(
+			upstack
+				? `Move ${sourceName} and its upstack onto ${targetName}?`
+				: `Move ${sourceName} onto ${targetName}?`,
+			{
+				modal: true,
+				detail: `This runs 'gs ${operation}' and rebases: ${rebased.join(', ')}.`,
+			},
+			'Move',
 		);
+		if (confirmation !== 'Move') {
+			return;
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Moving ${sourceName} onto ${targetName}`,
+			cancellable: false,
+		}, async () => {
+			try {
+				const folder = this.workspaceFolder!;
+				const result = await this.journal.record(folder, `Move ${sourceName} onto ${targetName}`, () => upstack
+					? execUpstackOnto(folder, sourceName, targetName)
+					: execBranchOnto(folder, sourceName, targetName));
+
+				if ('error' in result) {
+					if (await this.handleRebaseConflicts(`Moving ${sourceName}`)) {
+						return;
+					}
+					void showErrorWithLog(`Failed to move ${sourceName} onto ${targetName}: ${result.error}`);
+				} else {
+					void vscode.window.showInformationMessage(
+						`Moved ${sourceName} onto ${targetName}. Rebased: ${rebased.join(', ')}.`,
+					);
+				}
+
+				await this.refresh();
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				logMessage(`Unexpected error during ${operation}: ${message}`);
+				void showErrorWithLog(`Unexpected error while moving branch: ${message}`);
+			}
+		});
 	}
 
 	/**
@@ -460,15 +1100,25 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 		await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
 			title: `Reordering branch: ${pendingBranch}`,
-			cancellable: false,
-		}, async (progress) => {
+			cancellable: true,
+		}, async (progress, token) => {
 			try {
 				// Execute branch reorder using gs stack edit
-				const result = await execStackEdit(this.workspaceFolder!, { oldIndex, newIndex, branchName: pendingBranch });
-
-				if ('error' in result) {
+				const folder = this.workspaceFolder!;
+				const result = await this.journal.record(folder, `Reorder ${pendingBranch}`, () => execStackEdit(
+					folder,
+					{ oldIndex, newIndex, branchName: pendingBranch },
+					{ token, onOutput: createOutputReporter(progress, this.getStackBranches(), 'Restacking') },
+				));
+
+				if ('error' in result && result.cancelled) {
+					void vscode.window.showInformationMessage(`Reordering ${pendingBranch} cancelled.`);
+				} else if ('error' in result) {
 					console.error('🔄 Branch reorder failed:', result.error);
-					void vscode.window.showErrorMessage(`Failed to reorder branch: ${result.error}`);
+					if (await this.handleRebaseConflicts('Stack edit')) {
+						return;
+					}
+					void showErrorWithLog(`Failed to reorder branch: ${result.error}`);
 					
 					// Restore pending state on failure so user can retry
 					this.pendingReorder = { branchName: pendingBranch, oldIndex, newIndex };
@@ -532,7 +1182,7 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 	 */
 	public async handleBranchCommand(commandName: string, branchName: string): Promise<void> {
 		// Map command names to their exec functions
-		const commandMap: Record<string, (folder: vscode.WorkspaceFolder, branchName: string) => Promise<BranchCommandResult>> = {
+		const commandMap: Record<string, BranchCommandFunction> = {
 			untrack: execBranchUntrack,
 			checkout: execBranchCheckout,
 			fold: execBranchFold,
@@ -558,7 +1208,7 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 	private async handleBranchCommandInternal(
 		commandName: string,
 		branchName: string,
-		execFunction: (folder: vscode.WorkspaceFolder, branchName: string) => Promise<BranchCommandResult>,
+		execFunction: BranchCommandFunction,
 	): Promise<void> {
 		// Validate input
 		const trimmedName = typeof branchName === 'string' ? branchName.trim() : '';
@@ -581,15 +1231,27 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 		await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
 			title: `${commandName.charAt(0).toUpperCase() + commandName.slice(1)}ing branch: ${trimmedName}`,
-			cancellable: false,
-		}, async (progress) => {
+			cancellable: CANCELLABLE_BRANCH_COMMANDS.has(commandName),
+		}, async (progress, token) => {
 			try {
 				// Execute the branch command
-				const result = await execFunction(this.workspaceFolder!, trimmedName);
+				const folder = this.workspaceFolder!;
+				const run = (): Promise<BranchCommandResult> => execFunction(folder, trimmedName, {
+					token,
+					onOutput: createOutputReporter(progress, [trimmedName]),
+				});
+				const result = JOURNALED_BRANCH_COMMANDS.has(commandName)
+					? await this.journal.record(folder, `${commandName.charAt(0).toUpperCase() + commandName.slice(1)} ${trimmedName}`, run)
+					: await run();
 
-				if ('error' in result) {
+				if ('error' in result && result.cancelled) {
+					void vscode.window.showInformationMessage(`Branch ${commandName} of ${trimmedName} cancelled.`);
+				} else if ('error' in result) {
 					console.error(`🔄 Branch ${commandName} failed:`, result.error);
-					void vscode.window.showErrorMessage(`Failed to ${commandName} branch: ${result.error}`);
+					if (await this.handleRebaseConflicts(`Branch ${commandName}`)) {
+						return;
+					}
+					void showErrorWithLog(`Failed to ${commandName} branch: ${result.error}`);
 				} else {
 					console.log(`🔄 Branch ${commandName} successful`);
 					void vscode.window.showInformationMessage(`Branch ${trimmedName} ${commandName}ed successfully.`);
@@ -605,6 +1267,481 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 		});
 	}
 
+	/**
+	 * Submits a branch with options chosen in the submit dialog instead of the workspace defaults.
+	 * A new change request's title and body can be written in an editor first; existing change
+	 * requests keep theirs, since git-spice only uses them when creating one.
+	 */
+	private async handleBranchSubmitPrompt(branchName: string): Promise<void> {
+		const trimmedName = branchName.trim();
+		if (trimmedName.length === 0 || !this.workspaceFolder) {
+			return;
+		}
+		const folder = this.workspaceFolder;
+
+		const defaults = getSubmitDefaults(folder);
+		const result = await promptSubmitOptions({
+			target: trimmedName,
+			multipleBranches: false,
+			defaults,
+		});
+		if (!result) {
+			return;
+		}
+
+		let submit = result.submit;
+		const branch = this.branches.find((candidate) => candidate.name === trimmedName);
+		if (result.editText && !branch?.change) {
+			// The summary covers the current branch's stack, so it is only added to branches in it
+			const stack = buildDisplayState(this.branches, undefined, undefined, 'current', this.changeDetails).branches;
+			const inStack = stack.some((candidate) => candidate.name === trimmedName && candidate.stack !== undefined);
+			const summary = defaults.stackSummary && inStack ? buildStackSummary(stack, trimmedName) : undefined;
+			const text = await editChangeText(trimmedName, await draftChangeText(folder, trimmedName, branch?.down?.name, summary));
+			if (!text) {
+				return;
+			}
+			submit = { ...submit, ...text };
+		}
+
+		await this.handleBranchCommandInternal(
+			'submit',
+			trimmedName,
+			(folder, name, options) => execBranchSubmit(folder, name, options, submit),
+		);
+	}
+
+	/**
+	 * Runs `gs upstack <action>` or `gs downstack <action>` for a branch: the branch together with
+	 * every branch above it, or every branch between trunk and it.
+	 */
+	private async handleScopedCommand(command: ScopedCommand, branchName: string): Promise<void> {
+		const trimmedName = branchName.trim();
+		if (trimmedName.length === 0 || !this.workspaceFolder) {
+			return;
+		}
+
+		const folder = this.workspaceFolder;
+		const branches = command.scope === 'upstack'
+			? [trimmedName, ...collectUpstack(trimmedName, this.branches)]
+			: collectDownstack(trimmedName, this.branches);
+		const verb = command.action === 'restack' ? 'Restacking' : 'Submitting';
+		const description = `${command.scope} of ${trimmedName}`;
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `${verb} ${description}`,
+			cancellable: true,
+		}, async (progress, token) => {
+			const run = (): Promise<BranchCommandResult> => command.run(folder, trimmedName, {
+				token,
+				onOutput: createOutputReporter(progress, branches, command.action === 'restack' ? 'Restacking' : 'Pushing'),
+			});
+			const result = command.action === 'restack'
+				? await this.journal.record(folder, `Restack ${description}`, run)
+				: await run();
+
+			if ('error' in result && result.cancelled) {
+				void vscode.window.showInformationMessage(`${verb} ${description} cancelled.`);
+			} else if ('error' in result) {
+				if (await this.handleRebaseConflicts(`${command.scope} ${command.action}`)) {
+					return;
+				}
+				void showErrorWithLog(`Failed to ${command.action} ${description}: ${result.error}`);
+			} else {
+				const done = command.action === 'restack' ? 'Restacked' : 'Submitted';
+				void vscode.window.showInformationMessage(`${done} ${branches.join(', ')}.`);
+			}
+			await this.refresh();
+		});
+	}
+
+	/**
+	 * Deletes a branch after a confirmation that lists the branches that will be moved onto its base.
+	 * "Force Delete" is offered up front, and again when git-spice refuses to delete unmerged work.
+	 */
+	private async handleBranchDelete(branchName: string): Promise<void> {
+		const trimmedName = branchName.trim();
+		if (trimmedName.length === 0 || !this.workspaceFolder) {
+			return;
+		}
+		const folder = this.workspaceFolder;
+
+		const branch = this.branches.find((candidate) => candidate.name === trimmedName);
+		const base = branch?.down?.name;
+		const children = (branch?.ups ?? []).map((link) => link.name);
+		const detail = [
+			children.length > 0
+				? `These branches will be moved onto ${base ?? 'its base'}: ${children.join(', ')}.`
+				: 'No other branches are based on it.',
+			'Force Delete also deletes commits that are not merged anywhere else.',
+		].join('\n\n');
+
+		const choice = await vscode.window.showWarningMessage(
+			`Delete branch ${trimmedName}?`,
+			{ modal: true, detail },
+			'Delete',
+			'Force Delete',
+		);
+		if (!choice) {
+			return;
+		}
+
+		const deleteBranch = async (force: boolean): Promise<BranchCommandResult> => vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Deleting branch: ${trimmedName}`,
+			cancellable: false,
+		}, () => this.journal.record(folder, `Delete ${trimmedName}`, () => execBranchDelete(folder, trimmedName, force)));
+
+		let result = await deleteBranch(choice === 'Force Delete');
+		if ('error' in result && choice === 'Delete' && /not (?:fully )?merged|unmerged|--force/i.test(result.error)) {
+			const retry = await vscode.window.showWarningMessage(
+				`Branch ${trimmedName} has unmerged commits.`,
+				{ modal: true, detail: 'Force deleting discards them. They can still be restored with Undo Last Operation.' },
+				'Force Delete',
+			);
+			if (retry !== 'Force Delete') {
+				await this.refresh();
+				return;
+			}
+			result = await deleteBranch(true);
+		}
+
+		if ('error' in result) {
+			void showErrorWithLog(`Failed to delete branch: ${result.error}`);
+		} else {
+			const moved = children.length > 0 ? ` Moved ${children.join(', ')} onto ${base ?? 'its base'}.` : '';
+			void vscode.window.showInformationMessage(`Deleted branch ${trimmedName}.${moved}`);
+		}
+		await this.refresh();
+	}
+
+	/**
+	 * Tracked branches with trunk first, the order in which base guesses prefer them.
+	 */
+	private getBaseCandidates(): string[] {
+		const trunk = this.branches.filter((branch) => !branch.down).map((branch) => branch.name);
+		const others = this.branches.filter((branch) => branch.down).map((branch) => branch.name);
+		return [...trunk, ...others];
+	}
+
+	/**
+	 * Tracks an untracked branch after asking for its base. The branch git history suggests is preselected.
+	 */
+	private async handleBranchTrack(branchName: string): Promise<void> {
+		const trimmedName = branchName.trim();
+		if (trimmedName.length === 0 || !this.workspaceFolder) {
+			return;
+		}
+		const folder = this.workspaceFolder;
+
+		const candidates = this.getBaseCandidates();
+		if (candidates.length === 0) {
+			void vscode.window.showErrorMessage('No tracked branches to use as a base. Initialize the repository with gs repo init first.');
+			return;
+		}
+		const guessed = await guessBranchBase(folder, trimmedName, candidates);
+		const ordered = guessed ? [guessed, ...candidates.filter((name) => name !== guessed)] : candidates;
+		const base = await vscode.window.showQuickPick(
+			ordered.map((name) => ({ label: name, description: name === guessed ? 'suggested from git history' : undefined })),
+			{ title: `Track ${trimmedName}`, placeHolder: `Select the branch ${trimmedName} is based on` },
+		);
+		if (!base) {
+			return;
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Tracking ${trimmedName}`,
+			cancellable: false,
+		}, async () => {
+			const result = await this.journal.record(folder, `Track ${trimmedName}`, () => execBranchTrack(folder, trimmedName, base.label));
+			if ('error' in result) {
+				void showErrorWithLog(`Failed to track ${trimmedName}: ${result.error}`);
+			} else {
+				void vscode.window.showInformationMessage(`Tracking ${trimmedName} on ${base.label}.`);
+			}
+			await this.refresh();
+		});
+	}
+
+	/**
+	 * Tracks several untracked branches at once, for adopting a branch series made with plain git.
+	 * Each branch's base is guessed from git history among tracked and other untracked branches,
+	 * and branches are tracked bases first so each base is tracked before the branches on it.
+	 */
+	private async handleBranchTrackAll(): Promise<void> {
+		if (!this.workspaceFolder || this.untrackedBranches.length === 0) {
+			return;
+		}
+		const folder = this.workspaceFolder;
+		const untracked = [...this.untrackedBranches];
+		const candidates = [...this.getBaseCandidates(), ...untracked];
+
+		const guesses = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Guessing branch bases from git history...',
+			cancellable: false,
+		}, async () => {
+			const result = new Map<string, string>();
+			for (const name of untracked) {
+				const base = await guessBranchBase(folder, name, candidates);
+				if (base) {
+					result.set(name, base);
+				}
+			}
+			return result;
+		});
+
+		const items = untracked.map((name) => {
+			const base = guesses.get(name);
+			return {
+				label: name,
+				description: base ? `on ${base}` : 'no shared history with tracked branches',
+				picked: base !== undefined,
+				base,
+			};
+		});
+		const selected = await vscode.window.showQuickPick(items, {
+			title: 'Track Branches',
+			placeHolder: 'Select the branches to track on the suggested bases',
+			canPickMany: true,
+		});
+		if (!selected || selected.length === 0) {
+			return;
+		}
+
+		const tracked = new Set(this.branches.map((branch) => branch.name));
+		const pending = selected.filter((item) => item.base !== undefined);
+		const done: string[] = [];
+		// Branches without a guessed base have to be tracked one by one with a base picked by hand
+		const failed = selected.filter((item) => item.base === undefined).map((item) => item.label);
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Tracking branches',
+			cancellable: false,
+		}, (progress) => this.journal.record(folder, `Track ${pending.length} branches`, async () => {
+			let remaining = pending;
+			let attempted = 0;
+			while (remaining.length > 0) {
+				const ready = remaining.filter((item) => tracked.has(item.base!));
+				if (ready.length === 0) {
+					break;
+				}
+				for (const item of ready) {
+					attempted += 1;
+					progress.report({ message: `${item.label} (${attempted}/${pending.length})` });
+					const result = await execBranchTrack(folder, item.label, item.base!);
+					if ('error' in result) {
+						failed.push(item.label);
+					} else {
+						tracked.add(item.label);
+						done.push(item.label);
+					}
+				}
+				remaining = remaining.filter((item) => !ready.includes(item));
+			}
+			failed.push(...remaining.map((item) => item.label));
+		}));
+
+		if (failed.length > 0) {
+			void showErrorWithLog(`Tracked ${done.length} of ${selected.length} branches. Could not track: ${failed.join(', ')}.`);
+		} else {
+			void vscode.window.showInformationMessage(`Tracked ${done.join(', ')}.`);
+		}
+		await this.refresh();
+	}
+
+	/**
+	 * Edits the order of the branches below a branch with `gs downstack edit`. The list is built from
+	 * the loaded branches like git-spice writes it, top of the stack first, and opened in an editor
+	 * tab; the edited list is applied when the user saves and closes it.
+	 */
+	private async handleDownstackEdit(branchName: string): Promise<void> {
+		const trimmedName = branchName.trim();
+		if (trimmedName.length === 0 || !this.workspaceFolder) {
+			return;
+		}
+		const folder = this.workspaceFolder;
+
+		const downstack = collectDownstack(trimmedName, this.branches);
+		if (downstack.length === 0) {
+			void vscode.window.showInformationMessage(`${trimmedName} has no branches below it to reorder.`);
+			return;
+		}
+		const original = `${[...downstack].reverse().join('\n')}\n`;
+
+		const edited = await editInEditor({
+			fileName: 'git-spice-downstack.txt',
+			content: original,
+			message: `Reorder the branches below ${trimmedName} in the editor, then save and close it.`,
+		});
+		if (edited === undefined || edited === original) {
+			return;
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Editing downstack of ${trimmedName}`,
+			cancellable: true,
+		}, async (progress, token) => {
+			const result = await this.journal.record(folder, `Edit downstack of ${trimmedName}`, () => execDownstackEditApply(
+				folder,
+				trimmedName,
+				edited,
+				{ token, onOutput: createOutputReporter(progress, downstack, 'Restacking') },
+			));
+
+			if ('error' in result && result.cancelled) {
+				void vscode.window.showInformationMessage(`Editing the downstack of ${trimmedName} cancelled.`);
+			} else if ('error' in result) {
+				if (await this.handleRebaseConflicts('Downstack edit')) {
+					return;
+				}
+				void showErrorWithLog(`Failed to edit downstack: ${result.error}`);
+			} else {
+				void vscode.window.showInformationMessage(`Downstack of ${trimmedName} updated.`);
+			}
+			await this.refresh();
+		});
+	}
+
+	/**
+	 * Asks for a new base and moves the branch with its upstack there, like an Alt+Shift drop.
+	 */
+	private async handleUpstackOntoPrompt(branchName: string): Promise<void> {
+		const trimmedName = branchName.trim();
+		if (trimmedName.length === 0) {
+			return;
+		}
+
+		const upstack = new Set([trimmedName, ...collectUpstack(trimmedName, this.branches)]);
+		const current = this.branches.find((branch) => branch.name === trimmedName);
+		const candidates = this.branches
+			.filter((branch) => !upstack.has(branch.name))
+			.map((branch) => ({
+				label: branch.name,
+				description: branch.name === current?.down?.name ? 'current base' : branch.down ? undefined : 'trunk',
+			}));
+		const target = await vscode.window.showQuickPick(candidates, {
+			title: `Move ${trimmedName} and its upstack onto…`,
+			placeHolder: 'Select the new base branch',
+		});
+		if (target) {
+			await this.handleBranchDrop(trimmedName, target.label, true);
+		}
+	}
+
+	/**
+	 * Runs the "Create Branch…" wizard and creates the branch relative to the current branch.
+	 * The commit message is pre-filled from the Source Control input box, which is cleared
+	 * when that message was used.
+	 *
+	 * @param folder - Repository to create the branch in; defaults to the one shown in the view
+	 */
+	public async handleBranchCreatePrompt(folder: vscode.WorkspaceFolder | undefined = this.workspaceFolder): Promise<void> {
+		if (!folder) {
+			void vscode.window.showErrorMessage('No workspace folder available.');
+			return;
+		}
+
+		const isShown = folder.uri.toString() === this.workspaceFolder?.uri.toString();
+		const gitRepository = this.repositories.getGitRepository(folder);
+		const scmMessage = gitRepository?.inputBox.value ?? '';
+		const options = await promptBranchCreateOptions({
+			currentBranch: isShown ? this.branches.find((branch) => branch.current)?.name : undefined,
+			existingBranches: isShown ? this.branches.map((branch) => branch.name) : [],
+			initialMessage: scmMessage,
+		});
+		if (!options) {
+			return;
+		}
+
+		const label = options.name ?? 'branch';
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Creating ${label}...`,
+			cancellable: false,
+		}, async () => {
+			const result = await this.journal.record(folder, `Create ${label}`, () => execBranchCreateWithOptions(folder, options));
+			if ('error' in result) {
+				void showErrorWithLog(`Failed to create branch: ${result.error}`);
+			} else {
+				void vscode.window.showInformationMessage(options.name ? `Created branch ${options.name}.` : 'Created branch.');
+				if (gitRepository && options.message && options.message === scmMessage.trim()) {
+					gitRepository.inputBox.value = '';
+				}
+				void gitRepository?.status();
+			}
+			await this.refresh();
+		});
+	}
+
+	/**
+	 * Commits to the current branch with `gs commit create`, or amends its last commit with
+	 * `gs commit amend`, using the Source Control input box message. git-spice restacks the
+	 * branches above, so the view is refreshed right away to show them.
+	 *
+	 * Like VS Code's smart commit, all changes to tracked files are staged when nothing is staged.
+	 */
+	public async commitFromInputBox(folder: vscode.WorkspaceFolder, mode: 'create' | 'amend'): Promise<void> {
+		const gitRepository = this.repositories.getGitRepository(folder);
+		if (!gitRepository) {
+			void vscode.window.showErrorMessage('Git extension not found');
+			return;
+		}
+
+		const message = gitRepository.inputBox.value.trim();
+		if (mode === 'create' && !message) {
+			void vscode.window.showErrorMessage('Please enter a commit message first');
+			return;
+		}
+
+		const staged = gitRepository.state.indexChanges.length;
+		const trackedChanges = countTrackedChanges(gitRepository.state);
+		const stageAll = staged === 0 && trackedChanges > 0;
+		if (mode === 'create' && staged === 0 && trackedChanges === 0) {
+			void vscode.window.showInformationMessage('There are no changes to commit.');
+			return;
+		}
+
+		const isShown = folder.uri.toString() === this.workspaceFolder?.uri.toString();
+		const currentBranch = isShown ? this.branches.find((branch) => branch.current)?.name : undefined;
+		const target = currentBranch ?? 'current branch';
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: mode === 'create' ? `Committing to ${target}...` : `Amending ${target}...`,
+			cancellable: false,
+		}, async () => {
+			const result = await this.journal.record(
+				folder,
+				mode === 'create' ? `Commit to ${target}` : `Amend ${target}`,
+				() => (mode === 'create'
+					? execCommitCreate(folder, message, { stageAll })
+					: execCommitAmend(folder, message, { stageAll })),
+			);
+
+			if ('error' in result) {
+				if (await this.handleRebaseConflicts(mode === 'create' ? 'Commit' : 'Amend')) {
+					return;
+				}
+				void showErrorWithLog(`Failed to ${mode === 'create' ? 'commit' : 'amend commit'}: ${result.error}`);
+			} else {
+				gitRepository.inputBox.value = '';
+				const upstack = currentBranch ? collectUpstack(currentBranch, this.branches) : [];
+				const restacked = upstack.length > 0 ? ` Restacked ${upstack.join(', ')}.` : '';
+				void vscode.window.showInformationMessage(`${mode === 'create' ? 'Committed' : 'Amended commit'} on ${target}.${restacked}`);
+			}
+
+			void gitRepository.status();
+			if (isShown) {
+				await this.refresh();
+			} else {
+				this.showRepository(folder);
+			}
+		});
+	}
+
 	/**
 	 * Public method to handle branch rename prompt from VSCode commands
 	 */
@@ -679,11 +1816,12 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 		}, async (progress) => {
 			try {
 				// Execute the branch rename command
-				const result = await execBranchRename(this.workspaceFolder!, branchName, newName);
+				const folder = this.workspaceFolder!;
+				const result = await this.journal.record(folder, `Rename ${branchName} to ${newName}`, () => execBranchRename(folder, branchName, newName));
 
 				if ('error' in result) {
 					console.error('🔄 Branch rename failed:', result.error);
-					void vscode.window.showErrorMessage(`Failed to rename branch: ${result.error}`);
+					void showErrorWithLog(`Failed to rename branch: ${result.error}`);
 				} else {
 					console.log('🔄 Branch rename successful');
 					void vscode.window.showInformationMessage(`Branch renamed from ${branchName} to ${newName} successfully.`);
@@ -747,11 +1885,12 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 			cancellable: false,
 		}, async (progress) => {
 			try {
-				const result = await execCommitFixup(this.workspaceFolder!, sha);
+				const folder = this.workspaceFolder!;
+				const result = await this.journal.record(folder, `Fixup ${sha.substring(0, 8)}`, () => execCommitFixup(folder, sha));
 
 				if ('error' in result) {
 					console.error('🔄 Commit fixup failed:', result.error);
-					void vscode.window.showErrorMessage(`Failed to create fixup commit: ${result.error}`);
+					void showErrorWithLog(`Failed to create fixup commit: ${result.error}`);
 				} else {
 					console.log('🔄 Commit fixup successful');
 					void vscode.window.showInformationMessage(`Fixup commit created for ${sha.substring(0, 8)}`);
@@ -821,11 +1960,16 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 			cancellable: false,
 		}, async (progress) => {
 			try {
-				const result = await execBranchSplit(this.workspaceFolder!, branchName, sha, newBranchName.trim());
+				const folder = this.workspaceFolder!;
+				const result = await this.journal.record(
+					folder,
+					`Split ${branchName} at ${sha.substring(0, 8)}`,
+					() => execBranchSplit(folder, branchName, sha, newBranchName.trim()),
+				);
 
 				if ('error' in result) {
 					console.error('🔄 Branch split failed:', result.error);
-					void vscode.window.showErrorMessage(`Failed to split branch: ${result.error}`);
+					void showErrorWithLog(`Failed to split branch: ${result.error}`);
 				} else {
 					console.log('🔄 Branch split successful');
 					void vscode.window.showInformationMessage(`Branch ${branchName} split at ${sha.substring(0, 8)} → ${newBranchName}`);
@@ -846,7 +1990,8 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 		this.fileWatcher?.dispose();
 		this.fileWatcher = undefined;
 
-		if (!this.workspaceFolder || !this.view) {
+		// Watches even while the view is unresolved so the status bar follows branch switches
+		if (!this.workspaceFolder) {
 			return;
 		}
 
@@ -854,7 +1999,8 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 		// git-spice stores its data in .git/refs/spice/data
 		// HEAD changes indicate branch switches
 		const gitDir = vscode.Uri.joinPath(this.workspaceFolder.uri, '.git');
-		const pattern = new vscode.RelativePattern(gitDir, '{refs/spice/data,HEAD,refs/heads/**}');
+		// rebase-merge/rebase-apply appear and disappear as a restack pauses on conflicts and completes
+		const pattern = new vscode.RelativePattern(gitDir, '{refs/spice/data,HEAD,refs/heads/**,rebase-merge,rebase-apply}');
 
 		this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
 
@@ -869,6 +2015,8 @@ export class StackViewProvider implements vscode.WebviewViewProvider {
 
 	dispose(): void {
 		this.fileWatcher?.dispose();
+		this.listeners.forEach((listener) => listener.dispose());
+		this.onDidChangeStackEmitter.dispose();
 	}
 
 	private async renderHtml(webview: vscode.Webview): Promise<string> {
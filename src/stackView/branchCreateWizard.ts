@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+
+import type { BranchCreateOptions, BranchCreatePosition } from '../utils/gitSpice';
+
+const TITLE = 'Create Branch';
+const STEP_COUNT = 4;
+
+type PositionItem = vscode.QuickPickItem & { position: BranchCreatePosition };
+type FlagItem = vscode.QuickPickItem & { flag: 'stageAll' | 'runHooks' };
+
+export type BranchCreateWizardContext = Readonly<{
+	/** Branch the new branch is created relative to, when known. */
+	currentBranch?: string;
+	/** Names that are already taken. */
+	existingBranches: ReadonlyArray<string>;
+	/** Pre-filled commit message, typically the Source Control input box. */
+	initialMessage?: string;
+}>;
+
+/**
+ * Asks for everything `gs branch create` needs: name, commit message, which changes to commit,
+ * whether hooks run and where the branch goes in the stack.
+ *
+ * @returns `undefined` when the user cancels any step
+ */
+export async function promptBranchCreateOptions(context: BranchCreateWizardContext): Promise<BranchCreateOptions | undefined> {
+	const taken = new Set(context.existingBranches);
+	const name = await vscode.window.showInputBox({
+		title: `${TITLE} (1/${STEP_COUNT})`,
+		prompt: 'Branch name. Leave empty to derive it from the commit message.',
+		placeHolder: 'feature-name',
+		ignoreFocusOut: true,
+		validateInput: (input) => validateBranchName(input.trim(), taken),
+	});
+	if (name === undefined) {
+		return undefined;
+	}
+
+	const message = await vscode.window.showInputBox({
+		title: `${TITLE} (2/${STEP_COUNT})`,
+		prompt: name.trim()
+			? 'Commit message. Leave empty to create the branch without a commit.'
+			: 'Commit message. The branch name is derived from it.',
+		value: context.initialMessage?.trim() ?? '',
+		ignoreFocusOut: true,
+		validateInput: (input) => (!name.trim() && !input.trim() ? 'A commit message is required when no branch name is given.' : null),
+	});
+	if (message === undefined) {
+		return undefined;
+	}
+
+	const flagItems: FlagItem[] = [
+		{ label: 'Stage all changes', description: '-a', detail: 'Otherwise only changes that are already staged are committed.', flag: 'stageAll', picked: true },
+		{ label: 'Run git hooks', description: 'pre-commit, commit-msg', detail: 'Otherwise hooks are skipped with --no-verify.', flag: 'runHooks' },
+	];
+	const flags = await vscode.window.showQuickPick(flagItems, {
+		title: `${TITLE} (3/${STEP_COUNT})`,
+		placeHolder: 'Commit options',
+		canPickMany: true,
+		ignoreFocusOut: true,
+	});
+	if (!flags) {
+		return undefined;
+	}
+
+	const base = context.currentBranch ? `'${context.currentBranch}'` : 'the current branch';
+	const positionItems: PositionItem[] = [
+		{ label: 'On top', description: `Stack on ${base}`, position: 'above' },
+		{ label: 'Insert', description: '--insert', detail: `Between ${base} and the branches above it, which move onto the new branch.`, position: 'insert' },
+		{ label: 'Below', description: '--below', detail: `Between ${base} and its base, which ${base} moves onto.`, position: 'below' },
+	];
+	const position = await vscode.window.showQuickPick(positionItems, {
+		title: `${TITLE} (4/${STEP_COUNT})`,
+		placeHolder: 'Where should the branch go?',
+		ignoreFocusOut: true,
+	});
+	if (!position) {
+		return undefined;
+	}
+
+	return {
+		name: name.trim() || undefined,
+		message: message.trim() || undefined,
+		stageAll: flags.some((item) => item.flag === 'stageAll'),
+		runHooks: flags.some((item) => item.flag === 'runHooks'),
+		position: position.position,
+	};
+}
+
+/**
+ * Rejects names git would refuse (see git-check-ref-format) and names already in use.
+ */
+function validateBranchName(name: string, taken: ReadonlySet<string>): string | null {
+	if (name.length === 0) {
+		return null;
+	}
+	if (/[\s~^:?*[\\]|\.\.|@\{|\/\/|^[-/.]|[/.]$|\.lock$/.test(name)) {
+		return `'${name}' is not a valid branch name.`;
+	}
+	if (taken.has(name)) {
+		return `Branch '${name}' already exists.`;
+	}
+	return null;
+}
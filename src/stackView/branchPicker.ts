@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+
+import type { BranchViewModel } from './types';
+
+type BranchPickItem = vscode.QuickPickItem & { branch: string };
+
+export type BranchPickOptions = Readonly<{
+	title?: string;
+	placeHolder: string;
+}>;
+
+/**
+ * Lets the user pick one of `branches`, listed like the Git Spice view: children above their
+ * parents and trunk at the bottom. Each entry shows its base, change request and restack state.
+ *
+ * @param branches - View models in tree order (parents first), as built by `buildDisplayState`
+ * @returns the chosen branch name, or `undefined` when the user dismisses the picker
+ */
+export async function pickBranch(branches: ReadonlyArray<BranchViewModel>, options: BranchPickOptions): Promise<string | undefined> {
+	const items = [...branches].reverse().map(toPickItem);
+	const picked = await vscode.window.showQuickPick(items, {
+		title: options.title,
+		placeHolder: options.placeHolder,
+		matchOnDescription: true,
+		matchOnDetail: true,
+	});
+	return picked?.branch;
+}
+
+function toPickItem(branch: BranchViewModel): BranchPickItem {
+	const details: string[] = [];
+	if (branch.change) {
+		details.push(branch.change.status ? `${branch.change.id} (${branch.change.status})` : branch.change.id);
+	}
+	if (branch.restack) {
+		details.push('$(warning) needs restack');
+	}
+
+	return {
+		label: `${branch.current ? '$(check)' : '$(git-branch)'} ${branch.name}`,
+		description: branch.tree.parent ? `on ${branch.tree.parent}` : undefined,
+		detail: details.length > 0 ? details.join(' · ') : undefined,
+		branch: branch.name,
+	};
+}
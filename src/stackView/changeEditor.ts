@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { logMessage } from '../utils/commandLog';
+import { editInEditor } from '../utils/editorPrompt';
+import { getCommitMessages } from '../utils/git';
+
+/**
+ * Pull request template locations GitHub and GitLab recognize, in the order they are tried.
+ * Directories hold several templates; the first Markdown file is used.
+ */
+const TEMPLATE_CANDIDATES = [
+	'.github/pull_request_template.md',
+	'.github/PULL_REQUEST_TEMPLATE.md',
+	'pull_request_template.md',
+	'PULL_REQUEST_TEMPLATE.md',
+	'docs/pull_request_template.md',
+	'docs/PULL_REQUEST_TEMPLATE.md',
+	'.github/PULL_REQUEST_TEMPLATE',
+	'.gitlab/merge_request_templates',
+];
+
+export type ChangeText = Readonly<{
+	title: string;
+	body: string;
+}>;
+
+/**
+ * Proposes a change request title and body for `branch`, like `gs branch submit --fill`:
+ * a single commit gives its subject and body, several commits give the first subject and a list
+ * of all of them. The stack summary and the repository's pull request template follow the body.
+ */
+export async function draftChangeText(
+	folder: vscode.WorkspaceFolder,
+	branch: string,
+	base: string | undefined,
+	stackSummary?: string,
+): Promise<ChangeText> {
+	const messages = base ? await getCommitMessages(folder, base, branch) : { value: [] };
+	if ('error' in messages) {
+		logMessage(`Failed to read commits for the change request body of ${branch}: ${messages.error}`);
+	}
+	const commits = ('value' in messages ? messages.value : []).map(splitMessage);
+
+	let title = branch;
+	let body = '';
+	if (commits.length === 1) {
+		({ title, body } = commits[0]);
+	} else if (commits.length > 1) {
+		title = commits[0].title;
+		body = commits.map((commit) => `- ${commit.title}`).join('\n');
+	}
+
+	const template = await findChangeTemplate(folder);
+	return { title, body: [body, stackSummary, template].filter((part) => part && part.trim().length > 0).join('\n\n') };
+}
+
+/**
+ * Opens the title and body in a Markdown editor: the first line is the title, everything after
+ * the following blank line is the body. Saving and closing the editor accepts it.
+ *
+ * @returns `undefined` when the user cancels, closes the editor without saving or empties the title
+ */
+export async function editChangeText(branch: string, draft: ChangeText): Promise<ChangeText | undefined> {
+	const text = await editInEditor({
+		fileName: `${branch.replace(/[^\w.-]+/g, '-')}-change-request.md`,
+		content: `${draft.title}\n\n${draft.body}\n`,
+		message: `Edit the change request for ${branch}: the first line is the title, the rest is the body. Save and close the editor to submit.`,
+	});
+	if (text === undefined) {
+		return undefined;
+	}
+
+	const edited = splitMessage(text);
+	if (edited.title.length === 0) {
+		void vscode.window.showErrorMessage(`Submit of ${branch} cancelled: the change request title is empty.`);
+		return undefined;
+	}
+	return edited;
+}
+
+/**
+ * Finds the repository's pull request (or merge request) template.
+ */
+async function findChangeTemplate(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+	for (const candidate of TEMPLATE_CANDIDATES) {
+		const target = path.join(folder.uri.fsPath, candidate);
+		try {
+			const stat = await fs.promises.stat(target);
+			if (stat.isFile()) {
+				return await fs.promises.readFile(target, 'utf8');
+			}
+			if (stat.isDirectory()) {
+				const entries = (await fs.promises.readdir(target)).filter((entry) => entry.toLowerCase().endsWith('.md')).sort();
+				if (entries.length > 0) {
+					return await fs.promises.readFile(path.join(target, entries[0]), 'utf8');
+				}
+			}
+		} catch {
+			// Not present
+		}
+	}
+	return undefined;
+}
+
+function splitMessage(message: string): ChangeText {
+	const lines = message.replace(/\r\n/g, '\n').trim().split('\n');
+	return {
+		title: (lines[0] ?? '').trim(),
+		body: lines.slice(1).join('\n').trim(),
+	};
+}
@@ -0,0 +1,39 @@
+import type { BranchViewModel } from './types';
+
+const HEADING = '**Stack**';
+const MARKER = '👈';
+
+/**
+ * Renders a stack as a nested Markdown list for change request descriptions, trunk first and each
+ * branch under its base. Entries show the change id (linked), branch name and status; branches
+ * without a change request are listed by name. The entry for `highlight` is bold and marked, so
+ * reviewers see where the change sits in the stack.
+ *
+ * @param branches - View models of one stack in tree order, as built by `buildDisplayState` in `current` mode
+ * @param highlight - Branch to mark, typically the one whose description the summary goes into
+ */
+export function buildStackSummary(branches: ReadonlyArray<BranchViewModel>, highlight?: string): string {
+	// The tree only indents forks; Markdown needs every branch nested under its base
+	const levels = new Map<string, number>();
+	const lines = branches.map((branch) => {
+		const level = branch.tree.parent !== undefined ? (levels.get(branch.tree.parent) ?? -1) + 1 : 0;
+		levels.set(branch.name, level);
+		const indent = '  '.repeat(level);
+		const entry = describeBranch(branch);
+		return branch.name === highlight
+			? `${indent}- **${entry}** ${MARKER}`
+			: `${indent}- ${entry}`;
+	});
+	return [HEADING, '', ...lines].join('\n');
+}
+
+function describeBranch(branch: BranchViewModel): string {
+	const name = `\`${branch.name}\``;
+	if (!branch.change) {
+		return name;
+	}
+
+	const id = branch.change.url ? `[${branch.change.id}](${branch.change.url})` : branch.change.id;
+	const status = branch.change.status && branch.change.status !== 'open' ? ` (${branch.change.status})` : '';
+	return `${id} ${name}${status}`;
+}
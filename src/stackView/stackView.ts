@@ -32,7 +32,16 @@
  *    - New state fields: extend updateState() and render functions
  */
 
-import type { BranchViewModel, DisplayState, BranchReorderInfo } from './types';
+import type {
+	BranchViewModel,
+	DisplayState,
+	BranchReorderInfo,
+	RebaseViewModel,
+	RepositoryViewModel,
+	StackSectionViewModel,
+	UndoableOperationViewModel,
+} from './types';
+import type { ChangeChecksState, ChangeReviewDecision } from '../changeStatus/types';
 import type { WebviewMessage, ExtensionMessage } from './webviewTypes';
 import Sortable from 'sortablejs';
 
@@ -43,8 +52,17 @@ interface BranchData {
 	hasChange: boolean;
 	changeId?: string;
 	changeStatus?: string;
+	changeDetails?: string;
+	depth: number;
+	parent?: string;
+	siblingCount: number;
+	pushStatus?: string;
 }
 
+type ListEntry =
+	| { kind: 'branch'; key: string; branch: BranchViewModel }
+	| { kind: 'section'; key: string; section: StackSectionViewModel };
+
 interface DiffListConfig<T> {
 	getKey: (item: T) => string;
 	render: (item: T) => HTMLElement;
@@ -59,21 +77,48 @@ class StackView {
 	private readonly stackList: HTMLElement;
 	private readonly errorEl: HTMLElement;
 	private readonly emptyEl: HTMLElement;
+	private readonly rebaseBannerEl: HTMLElement;
+	private readonly repositoryPickerEl: HTMLElement;
+	private readonly repositorySelect: HTMLSelectElement;
+	private readonly busyIndicatorEl: HTMLElement;
+	private readonly undoBarEl: HTMLElement;
+	private readonly untrackedEl: HTMLDetailsElement;
+	/** Timestamp of the operation whose undo bar the user closed. */
+	private dismissedOperation: number | null = null;
 	private currentState: DisplayState | null = null;
 	private sortableInstance: Sortable | null = null;
 	private contextMenu: HTMLElement | null = null;
 	private currentContextBranch: string | null = null;
 	private commitContextMenu: HTMLElement | null = null;
 	private currentContextCommit: { sha: string; branchName: string } | null = null;
+	private dropTarget: { branchName: string; upstack: boolean } | null = null;
+	private readonly collapsedStacks: Set<string>;
 
 	private static readonly COMMIT_CHUNK = 10;
 	private static readonly ANIMATION_DURATION = 200;
 	private static readonly FLASH_DURATION = 300; // Back to normal duration
+	private static readonly CHECK_ICONS: Record<ChangeChecksState, { icon: string; title: string }> = {
+		success: { icon: 'pass-filled', title: 'Checks passed' },
+		failure: { icon: 'error', title: 'Checks failed' },
+		pending: { icon: 'watch', title: 'Checks running' },
+	};
+	private static readonly REVIEW_ICONS: Record<ChangeReviewDecision, { icon: string; title: string }> = {
+		approved: { icon: 'thumbsup', title: 'Approved' },
+		changesRequested: { icon: 'request-changes', title: 'Changes requested' },
+		reviewRequired: { icon: 'eye', title: 'Review required' },
+	};
 
 	constructor() {
 		this.stackList = document.getElementById('stackList')!;
 		this.errorEl = document.getElementById('error')!;
 		this.emptyEl = document.getElementById('empty')!;
+		this.rebaseBannerEl = document.getElementById('rebaseBanner')!;
+		this.repositoryPickerEl = document.getElementById('repositoryPicker')!;
+		this.repositorySelect = document.getElementById('repositorySelect') as HTMLSelectElement;
+		this.busyIndicatorEl = document.getElementById('busyIndicator')!;
+		this.undoBarEl = document.getElementById('undoBar')!;
+		this.untrackedEl = document.getElementById('untracked') as HTMLDetailsElement;
+		this.collapsedStacks = new Set<string>(this.vscode.getState()?.collapsedStacks ?? []);
 
 		this.setupEventListeners();
 		this.createContextMenu();
@@ -92,6 +137,10 @@ class StackView {
 			}
 		});
 
+		this.repositorySelect.addEventListener('change', () => {
+			this.vscode.postMessage({ type: 'selectRepository', repository: this.repositorySelect.value });
+		});
+
 		// Hide context menus when clicking elsewhere
 		document.addEventListener('click', () => {
 			this.hideContextMenu();
@@ -118,6 +167,7 @@ class StackView {
 		// Create menu items with codicon icons
 		const menuItems = [
 			{ label: 'Untrack', action: 'branchUntrack', icon: 'codicon-eye-closed' },
+			{ label: 'Delete', action: 'branchDelete', icon: 'codicon-trash' },
 			{ label: 'Checkout', action: 'branchCheckout', icon: 'codicon-git-branch' },
 			{ label: 'Fold', action: 'branchFold', icon: 'codicon-fold' },
 			{ label: 'Squash', action: 'branchSquash', icon: 'codicon-fold-down' },
@@ -125,9 +175,25 @@ class StackView {
 			{ label: 'Rename', action: 'branchRename', icon: 'codicon-tag', requiresPrompt: true },
 			{ label: 'Restack', action: 'branchRestack', icon: 'codicon-refresh', requiresRestack: true },
 			{ label: 'Submit', action: 'branchSubmit', icon: 'codicon-git-pull-request' },
+			{ label: 'Submit…', action: 'branchSubmitPrompt', icon: 'codicon-settings' },
+			{ label: 'Create Branch…', action: 'branchCreatePrompt', icon: 'codicon-add', requiresCurrent: true },
+			{ separator: true },
+			{ label: 'Restack Upstack', action: 'upstackRestack', icon: 'codicon-arrow-up' },
+			{ label: 'Submit Upstack', action: 'upstackSubmit', icon: 'codicon-cloud-upload' },
+			{ label: 'Move Upstack Onto…', action: 'upstackOntoPrompt', icon: 'codicon-git-merge' },
+			{ separator: true },
+			{ label: 'Submit Downstack', action: 'downstackSubmit', icon: 'codicon-cloud-upload' },
+			{ label: 'Edit Downstack…', action: 'downstackEdit', icon: 'codicon-list-ordered' },
 		];
 
 		menuItems.forEach(item => {
+			if ('separator' in item) {
+				const separator = document.createElement('div');
+				separator.className = 'context-menu-separator';
+				this.contextMenu!.appendChild(separator);
+				return;
+			}
+
 			const menuItem = document.createElement('div');
 			menuItem.className = 'context-menu-item';
 			menuItem.dataset.action = item.action;
@@ -205,8 +271,8 @@ class StackView {
 			const menuItem = item as HTMLElement;
 			const action = menuItem.dataset.action;
 
-			// Disable edit for non-current branches
-			if (action === 'branchEdit') {
+			// Disable edit and branch creation for non-current branches
+			if (action === 'branchEdit' || action === 'branchCreatePrompt') {
 				const isCurrent = branch?.current;
 				if (!isCurrent) {
 					menuItem.classList.add('disabled');
@@ -247,7 +313,9 @@ class StackView {
 	}
 
 	private handlePromptAction(action: string): void {
-		if (!this.currentContextBranch) return;
+		if (!this.currentContextBranch || this.isBusy()) {
+			return;
+		}
 
 		if (action === 'branchRename') {
 			// Send message to extension to show VSCode input box
@@ -266,7 +334,9 @@ class StackView {
 	}
 
 	private executeBranchAction(action: string): void {
-		if (!this.currentContextBranch) return;
+		if (!this.currentContextBranch || this.isBusy()) {
+			return;
+		}
 
 		this.vscode.postMessage({
 			type: action as any,
@@ -306,6 +376,8 @@ class StackView {
 		if (action === 'commitCopySha') {
 			// Copy SHA to clipboard
 			this.vscode.postMessage({ type: 'commitCopySha', sha });
+		} else if (this.isBusy()) {
+			return;
 		} else if (action === 'commitFixup') {
 			this.vscode.postMessage({ type: 'commitFixup', sha });
 		} else if (action === 'commitSplit') {
@@ -333,6 +405,12 @@ class StackView {
 		this.errorEl.classList.toggle('hidden', !newState.error);
 		this.errorEl.textContent = newState.error ?? '';
 
+		this.updateRepositoryPicker(newState.repositories ?? [], newState.activeRepository);
+		this.updateBusy(newState.busy === true);
+		this.updateRebaseBanner(newState.rebase);
+		this.updateUndoBar(newState.lastOperation);
+		this.updateUntrackedBranches(newState.untrackedBranches ?? []);
+
 		// Update branch list
 		this.updateBranches(oldState?.branches ?? [], newState.branches);
 
@@ -343,6 +421,212 @@ class StackView {
 		this.initializeSortable();
 	}
 
+	private isBusy(): boolean {
+		return this.currentState?.busy === true;
+	}
+
+	/**
+	 * Shows the progress bar while git-spice commands are running or queued. Actions that would
+	 * queue another conflicting command are disabled until the queue drains; read-only actions
+	 * (opening diffs, copying SHAs, switching repositories) stay available.
+	 */
+	private updateBusy(busy: boolean): void {
+		document.body.classList.toggle('busy', busy);
+		this.busyIndicatorEl.classList.toggle('hidden', !busy);
+		if (busy) {
+			this.hideContextMenu();
+			this.hideCommitContextMenu();
+		}
+	}
+
+	/**
+	 * Lists the open repositories in the header select. Hidden when there is only one.
+	 */
+	private updateRepositoryPicker(repositories: RepositoryViewModel[], activeRepository?: string): void {
+		this.repositoryPickerEl.classList.toggle('hidden', repositories.length < 2);
+		this.repositorySelect.replaceChildren(
+			...repositories.map((repository) => {
+				const option = document.createElement('option');
+				option.value = repository.id;
+				option.textContent = repository.name;
+				option.title = repository.path;
+				return option;
+			}),
+		);
+		if (activeRepository) {
+			this.repositorySelect.value = activeRepository;
+		}
+	}
+
+	/**
+	 * Lists local branches git-spice does not track below the stack, each with a Track action,
+	 * plus "Track All…" for adopting a whole series. The open/closed state survives re-renders.
+	 */
+	private updateUntrackedBranches(branches: string[]): void {
+		this.untrackedEl.classList.toggle('hidden', branches.length === 0);
+		const signature = branches.join('\n');
+		if (this.untrackedEl.dataset.signature === signature) {
+			return;
+		}
+		this.untrackedEl.dataset.signature = signature;
+
+		const summary = document.createElement('summary');
+		summary.className = 'untracked-summary';
+		const title = document.createElement('span');
+		title.textContent = `Untracked branches (${branches.length})`;
+		summary.appendChild(title);
+		if (branches.length > 1) {
+			const trackAll = document.createElement('button');
+			trackAll.type = 'button';
+			trackAll.className = 'untracked-action';
+			trackAll.textContent = 'Track All…';
+			trackAll.title = 'Track several branches on bases guessed from git history';
+			trackAll.addEventListener('click', (event: Event) => {
+				event.preventDefault();
+				if (!this.isBusy()) {
+					this.vscode.postMessage({ type: 'branchTrackAll' });
+				}
+			});
+			summary.appendChild(trackAll);
+		}
+
+		const list = document.createElement('ul');
+		list.className = 'untracked-list';
+		for (const name of branches) {
+			const item = document.createElement('li');
+			item.className = 'untracked-item';
+			const icon = document.createElement('i');
+			icon.className = 'codicon codicon-git-branch';
+			const label = document.createElement('span');
+			label.className = 'untracked-name';
+			label.textContent = name;
+			label.title = name;
+			const track = document.createElement('button');
+			track.type = 'button';
+			track.className = 'untracked-action';
+			track.textContent = 'Track';
+			track.title = `Track ${name} with git-spice`;
+			track.addEventListener('click', () => {
+				if (!this.isBusy()) {
+					this.vscode.postMessage({ type: 'branchTrack', branchName: name });
+				}
+			});
+			item.append(icon, label, track);
+			list.appendChild(item);
+		}
+
+		this.untrackedEl.replaceChildren(summary, list);
+	}
+
+	/**
+	 * Offers to undo the most recent journaled operation until the user closes the bar.
+	 */
+	private updateUndoBar(operation?: UndoableOperationViewModel): void {
+		this.undoBarEl.replaceChildren();
+		const visible = operation !== undefined && operation.timestamp !== this.dismissedOperation;
+		this.undoBarEl.classList.toggle('hidden', !visible);
+		if (!operation || !visible) {
+			return;
+		}
+
+		const icon = document.createElement('i');
+		icon.className = 'codicon codicon-history';
+		const label = document.createElement('span');
+		label.className = 'undo-bar-label';
+		label.textContent = operation.label;
+		label.title = `${operation.label} (${new Date(operation.timestamp).toLocaleTimeString()})`;
+
+		const undoButton = document.createElement('button');
+		undoButton.type = 'button';
+		undoButton.className = 'undo-bar-undo';
+		undoButton.textContent = 'Undo';
+		undoButton.addEventListener('click', () => {
+			if (!this.isBusy()) {
+				this.vscode.postMessage({ type: 'undo' });
+			}
+		});
+
+		const closeButton = document.createElement('button');
+		closeButton.type = 'button';
+		closeButton.className = 'undo-bar-close codicon codicon-close';
+		closeButton.title = 'Dismiss';
+		closeButton.setAttribute('aria-label', 'Dismiss');
+		closeButton.addEventListener('click', () => {
+			this.dismissedOperation = operation.timestamp;
+			this.undoBarEl.classList.add('hidden');
+		});
+
+		this.undoBarEl.append(icon, label, undoButton, closeButton);
+	}
+
+	/**
+	 * Shows the "Restack paused" banner while a rebase is in progress, listing conflicted
+	 * files (each opens the merge editor) with Continue and Abort actions.
+	 */
+	private updateRebaseBanner(rebase?: RebaseViewModel): void {
+		this.rebaseBannerEl.replaceChildren();
+		this.rebaseBannerEl.classList.toggle('hidden', !rebase);
+		if (!rebase) {
+			return;
+		}
+
+		const title = document.createElement('div');
+		title.className = 'rebase-banner-title';
+		const icon = document.createElement('i');
+		icon.className = 'codicon codicon-warning';
+		const text = document.createElement('span');
+		text.textContent = rebase.branch ? `Restack paused on ${rebase.branch}` : 'Restack paused';
+		title.append(icon, text);
+		this.rebaseBannerEl.appendChild(title);
+
+		if (rebase.conflictedFiles.length > 0) {
+			const list = document.createElement('ul');
+			list.className = 'rebase-banner-files';
+			for (const file of rebase.conflictedFiles) {
+				const item = document.createElement('li');
+				const button = document.createElement('button');
+				button.type = 'button';
+				button.className = 'rebase-banner-file';
+				button.textContent = file;
+				button.title = `Open ${file} in the merge editor`;
+				button.addEventListener('click', () => {
+					this.vscode.postMessage({ type: 'openConflict', path: file });
+				});
+				item.appendChild(button);
+				list.appendChild(item);
+			}
+			this.rebaseBannerEl.appendChild(list);
+		} else {
+			const hint = document.createElement('div');
+			hint.className = 'rebase-banner-hint';
+			hint.textContent = 'All conflicts resolved. Continue to finish the restack.';
+			this.rebaseBannerEl.appendChild(hint);
+		}
+
+		const actions = document.createElement('div');
+		actions.className = 'rebase-banner-actions';
+		const continueButton = document.createElement('button');
+		continueButton.type = 'button';
+		continueButton.className = 'reorder-confirm';
+		continueButton.textContent = 'Continue';
+		continueButton.addEventListener('click', () => {
+			if (!this.isBusy()) {
+				this.vscode.postMessage({ type: 'rebaseContinue' });
+			}
+		});
+		const abortButton = document.createElement('button');
+		abortButton.type = 'button';
+		abortButton.className = 'reorder-cancel';
+		abortButton.textContent = 'Abort';
+		abortButton.addEventListener('click', () => {
+			if (!this.isBusy()) {
+				this.vscode.postMessage({ type: 'rebaseAbort' });
+			}
+		});
+		actions.append(continueButton, abortButton);
+		this.rebaseBannerEl.appendChild(actions);
+	}
+
 	/**
 	 * Generic differ for lists with animations
 	 */
@@ -490,18 +774,195 @@ class StackView {
 
 		// Reverse to show in correct stack order (top to bottom)
 		const reversedNew = [...newBranches].reverse();
-		const reversedOld = [...oldBranches].reverse();
-
-		this.diffList(this.stackList, reversedOld, reversedNew, {
-			getKey: (branch) => branch.name,
-			render: (branch) => this.renderBranch(branch),
-			update: (card, branch) => {
-				this.updateBranch(card, branch);
+		const entries = this.buildListEntries(reversedNew);
+
+		this.diffList(this.stackList, [], entries, {
+			getKey: (entry) => entry.key,
+			render: (entry) => entry.kind === 'branch' ? this.renderBranch(entry.branch) : this.renderStackSection(entry.section),
+			update: (element, entry) => {
+				if (entry.kind === 'branch') {
+					this.updateBranch(element, entry.branch);
+				}
 			},
-			needsUpdate: (card, branch) => this.branchNeedsUpdate(card, branch),
+			needsUpdate: (element, entry) => entry.kind === 'branch'
+				? this.branchNeedsUpdate(element, entry.branch)
+				: this.stackSectionNeedsUpdate(element, entry.section),
 			itemSelector: '.stack-item',
 			itemClass: 'stack-item',
 		});
+
+		this.updateGraph(entries);
+	}
+
+	/**
+	 * Builds the rendered rows. In "all stacks" mode each stack gets a collapsible
+	 * section header above its branches; trunk stays at the bottom without a section.
+	 *
+	 * @param branches - Branches in display order (top of the stack first)
+	 */
+	private buildListEntries(branches: BranchViewModel[]): ListEntry[] {
+		if (this.currentState?.viewMode !== 'all') {
+			return branches.map((branch) => ({ kind: 'branch', key: branch.name, branch }));
+		}
+
+		const sections = new Map((this.currentState.stacks ?? []).map((section) => [section.id, section]));
+		const entries: ListEntry[] = [];
+		let previousStack: string | undefined;
+		for (const branch of branches) {
+			const section = branch.stack ? sections.get(branch.stack) : undefined;
+			if (section && branch.stack !== previousStack) {
+				// ':' cannot appear in git branch names, so section keys never collide with branch keys
+				entries.push({ kind: 'section', key: `stack:${section.id}`, section });
+			}
+			previousStack = branch.stack;
+			if (section && this.collapsedStacks.has(section.id)) {
+				continue;
+			}
+			entries.push({ kind: 'branch', key: branch.name, branch });
+		}
+		return entries;
+	}
+
+	private renderStackSection(section: StackSectionViewModel): HTMLElement {
+		const collapsed = this.collapsedStacks.has(section.id);
+		const header = document.createElement('div');
+		header.className = 'stack-section';
+		header.dataset.content = 'true';
+		header.dataset.stack = section.id;
+		header.dataset.signature = this.stackSectionSignature(section);
+		header.classList.toggle('is-current', section.current);
+		header.role = 'button';
+		header.tabIndex = 0;
+
+		const chevron = document.createElement('i');
+		chevron.className = `codicon ${collapsed ? 'codicon-chevron-right' : 'codicon-chevron-down'}`;
+		header.appendChild(chevron);
+
+		const name = document.createElement('span');
+		name.className = 'stack-section-name';
+		name.textContent = section.id;
+		header.appendChild(name);
+
+		const tags = document.createElement('div');
+		tags.className = 'branch-tags';
+		if (section.restack) {
+			tags.appendChild(this.createTag('Restack', 'warning'));
+		}
+		tags.appendChild(this.createTag(`${section.branchCount}`, ''));
+		header.appendChild(tags);
+
+		const toggle = (): void => this.toggleStackSection(section.id);
+		header.addEventListener('click', toggle);
+		header.addEventListener('keydown', (event: KeyboardEvent) => {
+			if (event.key === 'Enter' || event.key === ' ') {
+				event.preventDefault();
+				toggle();
+			}
+		});
+
+		return header;
+	}
+
+	private stackSectionNeedsUpdate(element: HTMLElement, section: StackSectionViewModel): boolean {
+		return element.dataset.signature !== this.stackSectionSignature(section);
+	}
+
+	private stackSectionSignature(section: StackSectionViewModel): string {
+		const collapsed = this.collapsedStacks.has(section.id);
+		return `${section.branchCount}|${section.current}|${section.restack}|${collapsed}`;
+	}
+
+	private toggleStackSection(stackId: string): void {
+		if (this.collapsedStacks.has(stackId)) {
+			this.collapsedStacks.delete(stackId);
+		} else {
+			this.collapsedStacks.add(stackId);
+		}
+		this.vscode.setState({ collapsedStacks: Array.from(this.collapsedStacks) });
+
+		const branches = this.currentState?.branches ?? [];
+		this.updateBranches(branches, branches);
+	}
+
+	/**
+	 * Draws the branch graph beside each card, similar to `gs ll`:
+	 * cards are indented by depth, an elbow connects each fork to its base below it,
+	 * and vertical lines pass through the rows that sit between a branch and its base.
+	 * Connections that would cross a stack section header are not drawn.
+	 *
+	 * @param entries - Rendered rows in display order (top of the stack first)
+	 */
+	private updateGraph(entries: ListEntry[]): void {
+		const items = new Map<string, HTMLElement>();
+		this.stackList.querySelectorAll('.stack-item').forEach((el) => {
+			const key = (el as HTMLElement).dataset.key;
+			if (key && !el.classList.contains('item-exit')) {
+				items.set(key, el as HTMLElement);
+			}
+		});
+
+		const passLanes = entries.map(() => new Set<number>());
+		const forkRows = new Set<string>();
+		const indexByName = new Map<string, number>();
+		entries.forEach((entry, index) => {
+			if (entry.kind === 'branch') {
+				indexByName.set(entry.branch.name, index);
+			}
+		});
+		entries.forEach((entry, index) => {
+			if (entry.kind !== 'branch' || !entry.branch.tree.parent) {
+				return;
+			}
+			const parentIndex = indexByName.get(entry.branch.tree.parent);
+			const parentEntry = parentIndex === undefined ? undefined : entries[parentIndex];
+			if (parentIndex === undefined || parentIndex <= index || parentEntry?.kind !== 'branch') {
+				return;
+			}
+			const between = entries.slice(index + 1, parentIndex);
+			if (between.some((other) => other.kind === 'section')) {
+				return;
+			}
+			// Linear continuations share their base's depth and need no elbow
+			const lane = parentEntry.branch.tree.depth;
+			if (entry.branch.tree.depth > lane) {
+				forkRows.add(entry.key);
+			}
+			for (let row = index + 1; row < parentIndex; row += 1) {
+				passLanes[row].add(lane);
+			}
+		});
+
+		entries.forEach((entry, index) => {
+			const item = items.get(entry.key);
+			if (!item) {
+				return;
+			}
+
+			const depth = entry.kind === 'branch' ? entry.branch.tree.depth : 1;
+			item.style.setProperty('--depth', String(depth));
+			item.classList.toggle('is-section', entry.kind === 'section');
+			item.querySelector(':scope > .tree-graph')?.remove();
+
+			const isFork = forkRows.has(entry.key);
+			if (!isFork && passLanes[index].size === 0) {
+				return;
+			}
+
+			const graph = document.createElement('div');
+			graph.className = 'tree-graph';
+			if (isFork) {
+				const elbow = document.createElement('div');
+				elbow.className = 'tree-elbow';
+				graph.appendChild(elbow);
+			}
+			for (const lane of passLanes[index]) {
+				const line = document.createElement('div');
+				line.className = 'tree-line';
+				line.style.setProperty('--lane', String(lane));
+				graph.appendChild(line);
+			}
+			item.insertBefore(graph, item.firstChild);
+		});
 	}
 
 	/**
@@ -571,6 +1032,9 @@ class StackView {
 		confirmButton.className = 'reorder-confirm';
 		confirmButton.textContent = '✓ Confirm';
 		confirmButton.addEventListener('click', () => {
+			if (this.isBusy()) {
+				return;
+			}
 			console.log('🔄 Confirm button clicked for:', pendingReorder.branchName);
 			this.vscode.postMessage({ type: 'confirmReorder', branchName: pendingReorder.branchName });
 		});
@@ -618,12 +1082,17 @@ class StackView {
 			hasChange: Boolean(branch.change),
 			changeId: branch.change?.id,
 			changeStatus: branch.change?.status,
+			changeDetails: this.changeDetailsSignature(branch),
+			depth: branch.tree.depth,
+			parent: branch.tree.parent,
+			siblingCount: branch.tree.siblingCount,
+			pushStatus: this.pushSignature(branch),
 		} as BranchData;
 
 		const header = this.renderBranchHeader(branch, card);
 		card.appendChild(header);
 
-		if (branch.change?.status) {
+		if (this.hasBranchMeta(branch)) {
 			const meta = this.renderBranchMeta(branch);
 			card.appendChild(meta);
 		}
@@ -651,6 +1120,11 @@ class StackView {
 			hasChange: Boolean(branch.change),
 			changeId: branch.change?.id,
 			changeStatus: branch.change?.status,
+			changeDetails: this.changeDetailsSignature(branch),
+			depth: branch.tree.depth,
+			parent: branch.tree.parent,
+			siblingCount: branch.tree.siblingCount,
+			pushStatus: this.pushSignature(branch),
 		} as BranchData;
 
 		// Granular updates with targeted animations
@@ -697,7 +1171,7 @@ class StackView {
 
 		// Update meta
 		const existingMeta = card.querySelector('.branch-meta');
-		if (branch.change?.status) {
+		if (this.hasBranchMeta(branch)) {
 			const newMeta = this.renderBranchMeta(branch);
 			if (existingMeta) {
 				existingMeta.replaceWith(newMeta);
@@ -737,7 +1211,12 @@ class StackView {
 			oldData.commitsCount !== (branch.commits?.length ?? 0) ||
 			oldData.hasChange !== Boolean(branch.change) ||
 			oldData.changeId !== branch.change?.id ||
-			oldData.changeStatus !== branch.change?.status
+			oldData.changeStatus !== branch.change?.status ||
+			oldData.changeDetails !== this.changeDetailsSignature(branch) ||
+			oldData.depth !== branch.tree.depth ||
+			oldData.parent !== branch.tree.parent ||
+			oldData.siblingCount !== branch.tree.siblingCount ||
+			oldData.pushStatus !== this.pushSignature(branch)
 		);
 	}
 
@@ -761,7 +1240,7 @@ class StackView {
 
 			header.style.cursor = 'pointer';
 			header.addEventListener('click', (event: Event) => {
-				if ((event.target as HTMLElement).closest('.branch-pr-link')) {
+				if ((event.target as HTMLElement).closest('.branch-pr-link, .branch-action')) {
 					return;
 				}
 				card.classList.toggle('expanded');
@@ -786,7 +1265,13 @@ class StackView {
 			tags.appendChild(this.createTag('Restack', 'warning'));
 		}
 
+		if (branch.push) {
+			this.renderPushStatus(branch, tags);
+		}
+
 		if (branch.change) {
+			this.renderChangeDetails(branch.change, tags);
+
 			const button = document.createElement('button');
 			button.type = 'button';
 			button.className = 'branch-pr-link';
@@ -806,12 +1291,108 @@ class StackView {
 		return header;
 	}
 
+	/**
+	 * Meta row is shown for change status and for branches that fork off a shared base,
+	 * so it is obvious which branch a sibling is based on.
+	 */
+	private hasBranchMeta(branch: BranchViewModel): boolean {
+		return Boolean(branch.change?.status) || (branch.tree.siblingCount > 1 && branch.tree.parent !== undefined);
+	}
+
+	/**
+	 * Renders remote tracking info: "↑ahead ↓behind" counts, a "needs push" marker,
+	 * and a push action for branches whose remote copy is out of date.
+	 */
+	private renderPushStatus(branch: BranchViewModel, tags: HTMLElement): void {
+		const push = branch.push!;
+		const counts: string[] = [];
+		if (push.ahead > 0) {
+			counts.push(`↑${push.ahead}`);
+		}
+		if (push.behind > 0) {
+			counts.push(`↓${push.behind}`);
+		}
+		if (counts.length > 0) {
+			const badge = document.createElement('span');
+			badge.className = 'branch-push-counts';
+			badge.textContent = counts.join(' ');
+			badge.title = `${push.ahead} commit(s) ahead, ${push.behind} commit(s) behind the remote branch`;
+			tags.appendChild(badge);
+		}
+
+		if (!push.needsPush) {
+			return;
+		}
+
+		tags.appendChild(this.createTag('Needs push', 'accent'));
+
+		const pushButton = document.createElement('button');
+		pushButton.type = 'button';
+		pushButton.className = 'branch-action codicon codicon-cloud-upload';
+		pushButton.title = branch.change ? `Push ${branch.name} and update its change request` : `Submit ${branch.name}`;
+		pushButton.setAttribute('aria-label', pushButton.title);
+		pushButton.addEventListener('click', (event: Event) => {
+			event.stopPropagation();
+			if (this.isBusy()) {
+				return;
+			}
+			this.vscode.postMessage({ type: 'branchSubmit', branchName: branch.name });
+		});
+		tags.appendChild(pushButton);
+	}
+
+	/**
+	 * Renders draft state, CI check rollup and review decision of a change request,
+	 * plus a "Blocks merge" marker on the lowest change in the stack that is not ready.
+	 */
+	private renderChangeDetails(change: NonNullable<BranchViewModel['change']>, tags: HTMLElement): void {
+		if (change.blocksMerge) {
+			tags.appendChild(this.createTag('Blocks merge', 'danger'));
+		}
+		if (change.draft) {
+			tags.appendChild(this.createTag('Draft', ''));
+		}
+		if (change.checks) {
+			const checks = StackView.CHECK_ICONS[change.checks];
+			tags.appendChild(this.createStatusIcon(checks.icon, `change-checks-${change.checks}`, checks.title));
+		}
+		if (change.review) {
+			const review = StackView.REVIEW_ICONS[change.review];
+			tags.appendChild(this.createStatusIcon(review.icon, `change-review-${change.review}`, review.title));
+		}
+	}
+
+	private createStatusIcon(icon: string, variant: string, title: string): HTMLElement {
+		const element = document.createElement('i');
+		element.className = `change-status-icon codicon codicon-${icon} ${variant}`;
+		element.title = title;
+		element.setAttribute('aria-label', title);
+		return element;
+	}
+
+	private changeDetailsSignature(branch: BranchViewModel): string | undefined {
+		const change = branch.change;
+		return change ? `${change.draft}|${change.checks}|${change.review}|${change.blocksMerge}` : undefined;
+	}
+
+	private pushSignature(branch: BranchViewModel): string | undefined {
+		return branch.push ? `${branch.push.ahead}|${branch.push.behind}|${branch.push.needsPush}` : undefined;
+	}
+
 	private renderBranchMeta(branch: BranchViewModel): HTMLElement {
 		const meta = document.createElement('div');
 		meta.className = 'branch-meta';
-		const status = document.createElement('span');
-		status.textContent = branch.change!.status!;
-		meta.appendChild(status);
+		if (branch.change?.status) {
+			const status = document.createElement('span');
+			status.textContent = branch.change.status;
+			meta.appendChild(status);
+		}
+		if (branch.tree.siblingCount > 1 && branch.tree.parent) {
+			const base = document.createElement('span');
+			base.className = 'branch-base';
+			base.textContent = `on ${branch.tree.parent} (fork ${branch.tree.siblingIndex + 1}/${branch.tree.siblingCount})`;
+			meta.appendChild(base);
+		}
 		return meta;
 	}
 
@@ -942,6 +1523,35 @@ class StackView {
 		return span;
 	}
 
+	/**
+	 * Marks the card under the pointer as the "move onto" target, or clears the marker.
+	 * Shift selects `gs upstack onto` instead of `gs branch onto`.
+	 */
+	private setDropTarget(item: HTMLElement | null, upstack = false): void {
+		this.stackList.querySelectorAll('.branch-card.drag-over').forEach((card) => {
+			card.classList.remove('drag-over', 'drag-over-upstack');
+		});
+
+		const branchName = item?.dataset?.branch;
+		if (!item || !branchName) {
+			this.dropTarget = null;
+			return;
+		}
+
+		const card = item.querySelector('.branch-card');
+		card?.classList.add('drag-over');
+		card?.classList.toggle('drag-over-upstack', upstack);
+		this.dropTarget = { branchName, upstack };
+	}
+
+	/**
+	 * Puts branch elements back in state order after a drag that did not reorder.
+	 */
+	private restoreBranchOrder(): void {
+		const branches = this.currentState?.branches ?? [];
+		this.updateBranches(branches, branches);
+	}
+
 	/**
 	 * Initializes SortableJS for drag-and-drop functionality on the branch list.
 	 * Destroys any existing instance before creating a new one.
@@ -975,7 +1585,38 @@ class StackView {
 				ghostClass: 'sortable-ghost',
 				chosenClass: 'sortable-chosen',
 				dragClass: 'sortable-drag',
+				filter: '.stack-section',
+				preventOnFilter: false,
+				// Dragging starts reorder or move operations, which must wait for running commands
+				disabled: this.isBusy(),
+				// Holding Alt while dragging switches from reordering to "move onto" mode:
+				// the hovered card becomes the new base instead of swapping positions.
+				onMove: (evt, originalEvent) => {
+					const pointer = originalEvent as MouseEvent;
+					if (!pointer.altKey) {
+						this.setDropTarget(null);
+						// `gs stack edit` only reorders the current stack, so reordering is disabled when showing all stacks
+						return this.currentState?.viewMode !== 'all';
+					}
+					this.setDropTarget(evt.related, pointer.shiftKey);
+					return false;
+				},
 				onEnd: (evt) => {
+					const dropTarget = this.dropTarget;
+					this.setDropTarget(null);
+
+					const sourceName = (evt.item as HTMLElement)?.dataset?.branch;
+					if (dropTarget && sourceName && dropTarget.branchName !== sourceName) {
+						this.restoreBranchOrder();
+						this.vscode.postMessage({
+							type: 'branchDrop',
+							source: sourceName,
+							target: dropTarget.branchName,
+							upstack: dropTarget.upstack,
+						});
+						return;
+					}
+
 					// Validate event structure
 					if (!evt || typeof evt.oldIndex !== 'number' || typeof evt.newIndex !== 'number') {
 						console.error('❌ Invalid SortableJS event structure:', evt);
@@ -1,33 +1,173 @@
+import type { ChangeDetails } from '../changeStatus/types';
 import type { BranchReorderInfo } from '../utils/gitSpice';
-import type { BranchChangeViewModel, BranchRecord, BranchViewModel, DisplayState } from './types';
+import type {
+	BranchChangeViewModel,
+	BranchRecord,
+	BranchTreeViewModel,
+	BranchViewModel,
+	DisplayState,
+	StackSectionViewModel,
+	StackViewMode,
+} from './types';
 
 export function buildDisplayState(
 	branches: BranchRecord[], 
 	error?: string, 
 	pendingReorder?: BranchReorderInfo,
+	viewMode: StackViewMode = 'current',
+	changeDetails?: ReadonlyMap<string, ChangeDetails>,
 ): DisplayState {
 	const branchMap = new Map(branches.map((branch) => [branch.name, branch]));
 	const current = branches.find((branch) => branch.current);
-	const stackBranches = current
+	// Without a current branch (e.g. detached HEAD) there is no focus set, so fall back to all stacks.
+	const effectiveMode: StackViewMode = current && viewMode === 'current' ? 'current' : 'all';
+	const stackBranches = current && effectiveMode === 'current'
 		? Array.from(computeFocusSet(current, branchMap))
 			.map((name) => branchMap.get(name))
 			.filter((branch): branch is BranchRecord => branch !== undefined)
-		: [];
+		: branches;
 
-	let ordered = orderStack(stackBranches, branchMap);
+	const tree = buildBranchTree(stackBranches, branchMap);
+	let ordered = tree.map((node) => node.branch);
 
 	// Apply pending reorder if it exists
 	if (pendingReorder) {
 		ordered = applyPendingReorder(ordered, pendingReorder);
 	}
 
+	const treeInfo = new Map(tree.map((node) => [node.branch.name, node.info]));
+	const stackOf = assignStacks(tree);
+
+	const models = ordered.map((branch) => {
+		const model = createBranchViewModel(branch, treeInfo.get(branch.name)!, changeDetails?.get(branch.name));
+		const stack = stackOf.get(branch.name);
+		if (stack) {
+			model.stack = stack;
+		}
+		return model;
+	});
+	markMergeBlockers(models);
+
 	return {
-		branches: ordered.map((branch) => createBranchViewModel(branch)),
+		branches: models,
+		viewMode: effectiveMode,
+		stacks: effectiveMode === 'all' ? buildStackSections(models) : [],
 		error,
 		pendingReorder,
 	};
 }
 
+/**
+ * Collects every branch stacked on top of the given branch, in breadth-first order.
+ */
+export function collectUpstack(branchName: string, branches: BranchRecord[]): string[] {
+	const branchMap = new Map(branches.map((branch) => [branch.name, branch]));
+	const upstack: string[] = [];
+	const queue = [branchName];
+	while (queue.length > 0) {
+		const name = queue.shift()!;
+		for (const link of branchMap.get(name)?.ups ?? []) {
+			if (link.name !== branchName && !upstack.includes(link.name)) {
+				upstack.push(link.name);
+				queue.push(link.name);
+			}
+		}
+	}
+	return upstack;
+}
+
+/**
+ * Lists the branches from just above trunk up to and including `branchName`.
+ */
+export function collectDownstack(branchName: string, branches: BranchRecord[]): string[] {
+	const branchMap = new Map(branches.map((branch) => [branch.name, branch]));
+	const downstack: string[] = [];
+	for (let branch = branchMap.get(branchName); branch?.down; branch = branchMap.get(branch.down.name)) {
+		if (downstack.includes(branch.name)) {
+			break;
+		}
+		downstack.unshift(branch.name);
+	}
+	return downstack;
+}
+
+type BranchTreeNode = {
+	branch: BranchRecord;
+	info: BranchTreeViewModel;
+};
+
+/**
+ * Maps every branch above a root (trunk) to the name of its stack: the branch sitting directly on the root.
+ */
+function assignStacks(tree: BranchTreeNode[]): Map<string, string> {
+	const roots = new Set(tree.filter((node) => !node.info.parent).map((node) => node.branch.name));
+	const stacks = new Map<string, string>();
+	for (const node of tree) {
+		const parent = node.info.parent;
+		if (!parent) {
+			continue;
+		}
+		const stack = roots.has(parent) ? node.branch.name : stacks.get(parent);
+		if (stack) {
+			stacks.set(node.branch.name, stack);
+		}
+	}
+	return stacks;
+}
+
+/**
+ * Flags each open change that is not ready to merge while every change below it is,
+ * since stacks merge bottom-up. Changes without known details are never flagged.
+ */
+function markMergeBlockers(branches: BranchViewModel[]): void {
+	const byName = new Map(branches.map((branch) => [branch.name, branch]));
+	for (const branch of branches) {
+		if (!branch.change || !isUnmergeable(branch.change)) {
+			continue;
+		}
+
+		let blockedBelow = false;
+		const seen = new Set([branch.name]);
+		for (let parent = branch.tree.parent; parent && !seen.has(parent); parent = byName.get(parent)?.tree.parent) {
+			seen.add(parent);
+			const change = byName.get(parent)?.change;
+			if (change && isUnmergeable(change)) {
+				blockedBelow = true;
+				break;
+			}
+		}
+		if (!blockedBelow) {
+			branch.change.blocksMerge = true;
+		}
+	}
+}
+
+function isUnmergeable(change: BranchChangeViewModel): boolean {
+	if (change.status === 'merged' || change.status === 'closed') {
+		return false;
+	}
+	return change.draft === true
+		|| change.checks === 'failure'
+		|| change.checks === 'pending'
+		|| change.review === 'changesRequested'
+		|| change.review === 'reviewRequired';
+}
+
+function buildStackSections(branches: BranchViewModel[]): StackSectionViewModel[] {
+	const sections = new Map<string, StackSectionViewModel>();
+	for (const branch of branches) {
+		if (!branch.stack) {
+			continue;
+		}
+		const section = sections.get(branch.stack) ?? { id: branch.stack, branchCount: 0, current: false, restack: false };
+		section.branchCount += 1;
+		section.current = section.current || branch.current;
+		section.restack = section.restack || branch.restack;
+		sections.set(branch.stack, section);
+	}
+	return Array.from(sections.values());
+}
+
 function computeFocusSet(current: BranchRecord, branchMap: Map<string, BranchRecord>): Set<string> {
 	const set = new Set<string>();
 	let node: BranchRecord | undefined = current;
@@ -67,38 +207,58 @@ function computeFocusSet(current: BranchRecord, branchMap: Map<string, BranchRec
 	return set;
 }
 
-function orderStack(branches: BranchRecord[], branchMap: Map<string, BranchRecord>): BranchRecord[] {
-	const ordered: BranchRecord[] = [];
+/**
+ * Orders branches depth-first (parents before children) and records each branch's position
+ * in the tree so the webview can draw fork lines like `gs ll`.
+ *
+ * Like `gs ll`, only forks are indented: a branch's first child (by name) stays at its depth
+ * and further children move one level right. Stacks on a root (trunk) are always indented.
+ * The first child is visited last, so in the bottom-up view the forks sit between it and
+ * their base and the line down to the base passes beside them.
+ */
+function buildBranchTree(branches: BranchRecord[], branchMap: Map<string, BranchRecord>): BranchTreeNode[] {
+	const nodes: BranchTreeNode[] = [];
 	const visited = new Set<string>();
+	const included = new Set(branches.map((branch) => branch.name));
+
+	const childrenOf = (branch: BranchRecord): BranchRecord[] =>
+		(branch.ups ?? [])
+			.map((link) => branchMap.get(link.name))
+			.filter((child): child is BranchRecord => child !== undefined && included.has(child.name))
+			.sort((a, b) => a.name.localeCompare(b.name));
 
 	const roots = branches
-		.filter((branch) => !branch.down || !branchMap.has(branch.down.name))
+		.filter((branch) => !branch.down || !included.has(branch.down.name))
 		.sort((a, b) => a.name.localeCompare(b.name));
 
 	const queue: BranchRecord[] = roots.length > 0 ? roots : branches;
 
-	for (const branch of queue) {
-		traverse(branch);
-	}
+	queue.forEach((root, index) => traverse(root, 0, undefined, index, queue.length));
 
-	function traverse(branch: BranchRecord): void {
+	function traverse(branch: BranchRecord, depth: number, parent: string | undefined, siblingIndex: number, siblingCount: number): void {
 		if (visited.has(branch.name)) {
 			return;
 		}
 		visited.add(branch.name);
-		ordered.push(branch);
 
-		const children = (branch.ups ?? [])
-			.map((link) => branchMap.get(link.name))
-			.filter((child): child is BranchRecord => child !== undefined && branches.includes(child))
-			.sort((a, b) => a.name.localeCompare(b.name));
+		const children = childrenOf(branch);
+		nodes.push({
+			branch,
+			info: { depth, parent, siblingIndex, siblingCount, childCount: children.length },
+		});
 
-		for (const child of children) {
-			traverse(child);
+		const forkDepth = depth + 1;
+		if (!parent) {
+			children.forEach((child, index) => traverse(child, forkDepth, branch.name, index, children.length));
+			return;
+		}
+		children.slice(1).forEach((child, index) => traverse(child, forkDepth, branch.name, index + 1, children.length));
+		if (children.length > 0) {
+			traverse(children[0], depth, branch.name, 0, children.length);
 		}
 	}
 
-	return ordered;
+	return nodes;
 }
 
 /**
@@ -141,17 +301,26 @@ function applyPendingReorder(
 	return reordered;
 }
 
-function createBranchViewModel(branch: BranchRecord): BranchViewModel {
+function createBranchViewModel(branch: BranchRecord, tree: BranchTreeViewModel, changeDetails?: ChangeDetails): BranchViewModel {
 	const restack = branch.down?.needsRestack === true || (branch.ups ?? []).some((link) => link.needsRestack === true);
 
 	const model: BranchViewModel = {
 		name: branch.name,
 		current: branch.current === true,
 		restack,
+		tree,
 	};
 
 	if (branch.change) {
-		model.change = toChangeViewModel(branch.change);
+		model.change = toChangeViewModel(branch.change, changeDetails);
+	}
+
+	if (branch.push) {
+		model.push = {
+			ahead: branch.push.ahead,
+			behind: branch.push.behind,
+			needsPush: branch.push.needsPush === true,
+		};
 	}
 
 	if (branch.commits && branch.commits.length > 0) {
@@ -165,10 +334,20 @@ function createBranchViewModel(branch: BranchRecord): BranchViewModel {
 	return model;
 }
 
-function toChangeViewModel(change: NonNullable<BranchRecord['change']>): BranchChangeViewModel {
-	return {
+function toChangeViewModel(change: NonNullable<BranchRecord['change']>, details?: ChangeDetails): BranchChangeViewModel {
+	const model: BranchChangeViewModel = {
 		id: change.id,
 		url: change.url,
 		status: change.status,
 	};
+	if (details?.draft !== undefined) {
+		model.draft = details.draft;
+	}
+	if (details?.review) {
+		model.review = details.review;
+	}
+	if (details?.checks) {
+		model.checks = details.checks;
+	}
+	return model;
 }
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+
+import type { BranchViewModel, DisplayState } from './types';
+
+const NAVIGATE_COMMAND = 'git-spice.navigate';
+
+export type StackPosition = Readonly<{
+	branch: string;
+	/** 1-based position of the branch counted up from trunk; 0 on trunk. */
+	index: number;
+	/** Branches in the stack, excluding trunk. */
+	count: number;
+	/** Branches of the stack that need restacking. */
+	restackBranches: ReadonlyArray<string>;
+	/** Change request of the current branch, e.g. "#123". */
+	change?: string;
+}>;
+
+/**
+ * Shows where the current branch sits in its stack, e.g. "stack 3/5", with a warning when the
+ * stack needs restacking and the branch's change request number. Clicking it opens the navigation picker.
+ */
+export class StackStatusBar implements vscode.Disposable {
+	private readonly item = vscode.window.createStatusBarItem('gitSpice.stack', vscode.StatusBarAlignment.Left, 50);
+	private readonly listener: vscode.Disposable;
+
+	constructor(onDidChangeStack: vscode.Event<DisplayState>) {
+		this.item.name = 'git-spice Stack';
+		this.item.command = NAVIGATE_COMMAND;
+		this.listener = onDidChangeStack((state) => this.update(state));
+	}
+
+	dispose(): void {
+		this.listener.dispose();
+		this.item.dispose();
+	}
+
+	private update(state: DisplayState): void {
+		const position = getStackPosition(state);
+		if (!position) {
+			this.item.hide();
+			return;
+		}
+
+		const parts = [position.index === 0 ? '$(layers) trunk' : `$(layers) stack ${position.index}/${position.count}`];
+		if (position.restackBranches.length > 0) {
+			parts.push('$(warning)');
+		}
+		if (position.change) {
+			parts.push(position.change);
+		}
+		this.item.text = parts.join(' ');
+		this.item.tooltip = buildTooltip(position);
+		this.item.backgroundColor = position.restackBranches.length > 0
+			? new vscode.ThemeColor('statusBarItem.warningBackground')
+			: undefined;
+		this.item.show();
+	}
+}
+
+/**
+ * Locates the current branch in a state built for the current stack.
+ *
+ * @returns `undefined` when there is no current branch (detached HEAD, no repository or untracked branch)
+ */
+export function getStackPosition(state: DisplayState): StackPosition | undefined {
+	const current = state.branches.find((branch) => branch.current);
+	if (!current) {
+		return undefined;
+	}
+
+	const stack: BranchViewModel[] = current.stack ? state.branches.filter((branch) => branch.stack === current.stack) : [];
+	return {
+		branch: current.name,
+		index: current.stack ? countStackLevels(current, stack) : 0,
+		count: stack.length,
+		restackBranches: stack.filter((branch) => branch.restack).map((branch) => branch.name),
+		change: current.change?.id,
+	};
+}
+
+/**
+ * Counts the branches from the stack's root up to and including `branch`.
+ */
+function countStackLevels(branch: BranchViewModel, stack: BranchViewModel[]): number {
+	const byName = new Map(stack.map((entry) => [entry.name, entry]));
+	let levels = 0;
+	for (let node: BranchViewModel | undefined = branch; node && levels <= stack.length; node = node.tree.parent ? byName.get(node.tree.parent) : undefined) {
+		levels += 1;
+	}
+	return levels;
+}
+
+function buildTooltip(position: StackPosition): vscode.MarkdownString {
+	const lines = [
+		position.index === 0
+			? `**${position.branch}** (trunk)`
+			: `**${position.branch}**: branch ${position.index} of ${position.count} in its stack`,
+	];
+	if (position.change) {
+		lines.push(`Change request ${position.change}`);
+	}
+	if (position.restackBranches.length > 0) {
+		lines.push(`$(warning) Needs restack: ${position.restackBranches.join(', ')}`);
+	}
+	lines.push('Click to navigate the stack');
+
+	const tooltip = new vscode.MarkdownString(lines.join('\n\n'));
+	tooltip.supportThemeIcons = true;
+	return tooltip;
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+
+import type { SubmitDefaults } from '../utils/config';
+import type { SubmitOptions } from '../utils/gitSpice';
+
+const STEP_COUNT = 3;
+
+type FlagItem = vscode.QuickPickItem & { flag: 'draft' | 'fill' | 'force' | 'updateOnly' };
+
+export type SubmitWizardContext = Readonly<{
+	/** What is submitted, e.g. "feature-x" or "current stack"; used in titles. */
+	target: string;
+	/** Several branches are submitted, so text is edited once per new change request. */
+	multipleBranches: boolean;
+	/** Pre-selected values, from the `git-spice.submit.*` settings. */
+	defaults: SubmitDefaults;
+}>;
+
+export type SubmitWizardResult = Readonly<{
+	submit: SubmitOptions;
+	/** Titles and bodies should be edited in an editor instead of filled from commits. */
+	editText: boolean;
+}>;
+
+/**
+ * Asks for the submit flags: draft or ready, filled or edited title and body, reviewers,
+ * labels, force push and update-only. Every step starts from the workspace defaults.
+ *
+ * @returns `undefined` when the user cancels any step
+ */
+export async function promptSubmitOptions(context: SubmitWizardContext): Promise<SubmitWizardResult | undefined> {
+	const title = `Submit ${context.target}`;
+	const { defaults } = context;
+
+	const flagItems: FlagItem[] = [
+		{ label: 'Draft', description: '--draft', detail: 'Open new change requests as drafts.', flag: 'draft', picked: defaults.draft },
+		{
+			label: 'Fill from commits',
+			description: '--fill',
+			detail: context.multipleBranches
+				? 'Otherwise the title and body of each new change request open in an editor first.'
+				: 'Otherwise the title and body open in an editor first.',
+			flag: 'fill',
+			picked: defaults.fill,
+		},
+		{ label: 'Force push', description: '--force', detail: 'Overwrite remote branches even if they have diverged.', flag: 'force', picked: defaults.force },
+		{ label: 'Update only', description: '--update-only', detail: 'Only push branches that already have a change request.', flag: 'updateOnly', picked: defaults.updateOnly },
+	];
+	const flags = await vscode.window.showQuickPick(flagItems, {
+		title: `${title} (1/${STEP_COUNT})`,
+		placeHolder: 'Submit options',
+		canPickMany: true,
+		ignoreFocusOut: true,
+	});
+	if (!flags) {
+		return undefined;
+	}
+	const picked = new Set(flags.map((item) => item.flag));
+
+	const reviewers = await promptList(`${title} (2/${STEP_COUNT})`, 'Reviewers (comma-separated user or team names)', defaults.reviewers);
+	if (!reviewers) {
+		return undefined;
+	}
+	const labels = await promptList(`${title} (3/${STEP_COUNT})`, 'Labels (comma-separated)', defaults.labels);
+	if (!labels) {
+		return undefined;
+	}
+
+	return {
+		submit: {
+			draft: picked.has('draft'),
+			reviewers,
+			labels,
+			force: picked.has('force'),
+			updateOnly: picked.has('updateOnly'),
+		},
+		editText: !picked.has('fill'),
+	};
+}
+
+async function promptList(title: string, prompt: string, initial: ReadonlyArray<string>): Promise<string[] | undefined> {
+	const input = await vscode.window.showInputBox({
+		title,
+		prompt,
+		value: initial.join(', '),
+		ignoreFocusOut: true,
+	});
+	return input?.split(',').map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+}
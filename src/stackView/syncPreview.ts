@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+
+import { collectUpstack } from './state';
+import type { BranchRecord } from './types';
+
+type DeletionItem = vscode.QuickPickItem & { branch: string };
+
+export type SyncDeletionCandidate = Readonly<{
+	branch: string;
+	changeId: string;
+	status: 'merged' | 'closed';
+	/** Branch the upstack moves onto when this branch is deleted. */
+	base?: string;
+	/** Branches above this one, which are restacked when it is deleted. */
+	upstack: ReadonlyArray<string>;
+}>;
+
+export type SyncPlan = Readonly<{
+	/** Branches the preview listed; sync prompts about them are answered without asking again. */
+	previewed: ReadonlySet<string>;
+	/** Previewed branches the user chose to delete. */
+	deletions: ReadonlySet<string>;
+}>;
+
+/**
+ * Lists the branches `gs repo sync` will offer to delete: those whose change request was merged
+ * or closed, as git-spice last reported it. Sync may find more after fetching.
+ */
+export function findSyncDeletionCandidates(branches: BranchRecord[]): SyncDeletionCandidate[] {
+	return branches.flatMap((branch) => {
+		const status = branch.change?.status;
+		if (!branch.change || (status !== 'merged' && status !== 'closed')) {
+			return [];
+		}
+		return [{
+			branch: branch.name,
+			changeId: branch.change.id,
+			status,
+			base: branch.down?.name,
+			upstack: collectUpstack(branch.name, branches),
+		}];
+	});
+}
+
+/**
+ * Shows the sync preview: one checkbox per deletion candidate, merged branches pre-selected,
+ * followed by separators naming the branches that will be restacked, updated as deletions are
+ * ticked. A branch is restacked when a branch below it is deleted; with nothing ticked, a
+ * separator says so. Only deletion candidates can be selected.
+ *
+ * @returns `undefined` when the user dismisses the preview, which cancels the sync
+ */
+export function promptSyncPlan(candidates: ReadonlyArray<SyncDeletionCandidate>): Promise<SyncPlan | undefined> {
+	const deletionItems: DeletionItem[] = candidates.map((candidate) => ({
+		label: `$(trash) ${candidate.branch}`,
+		description: `${candidate.changeId} ${candidate.status}`,
+		detail: candidate.upstack.length > 0
+			? `Restacks onto ${candidate.base ?? 'its base'}: ${candidate.upstack.join(', ')}`
+			: undefined,
+		branch: candidate.branch,
+	}));
+
+	const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem>();
+	quickPick.title = 'Sync Repository';
+	quickPick.placeholder = 'Select the branches to delete while syncing. Unselected branches are kept.';
+	quickPick.canSelectMany = true;
+	quickPick.ignoreFocusOut = true;
+
+	let shown: DeletionItem[] = [];
+	const show = (selected: DeletionItem[]): void => {
+		shown = selected;
+		quickPick.items = [
+			...deletionItems,
+			...describeRestacks(candidates, new Set(selected.map((item) => item.branch))).map((label) => ({
+				label,
+				kind: vscode.QuickPickItemKind.Separator,
+			})),
+		];
+		quickPick.selectedItems = selected;
+	};
+	show(deletionItems.filter((item, index) => candidates[index].status === 'merged'));
+
+	return new Promise((resolve) => {
+		let plan: SyncPlan | undefined;
+		quickPick.onDidChangeSelection((items) => {
+			const selected = items.filter(isDeletionItem);
+			if (selected.length !== shown.length || selected.some((item) => !shown.includes(item))) {
+				show(selected);
+			}
+		});
+		quickPick.onDidAccept(() => {
+			plan = {
+				previewed: new Set(candidates.map((candidate) => candidate.branch)),
+				deletions: new Set(shown.map((item) => item.branch)),
+			};
+			quickPick.hide();
+		});
+		quickPick.onDidHide(() => {
+			quickPick.dispose();
+			resolve(plan);
+		});
+		quickPick.show();
+	});
+}
+
+function isDeletionItem(item: vscode.QuickPickItem): item is DeletionItem {
+	return 'branch' in item;
+}
+
+/**
+ * Describes the branches moved onto a new base when `deletions` are deleted: those above a deleted
+ * branch that are not deleted themselves.
+ */
+function describeRestacks(candidates: ReadonlyArray<SyncDeletionCandidate>, deletions: ReadonlySet<string>): string[] {
+	const restacked = new Map<string, string>();
+	for (const candidate of candidates) {
+		if (!deletions.has(candidate.branch)) {
+			continue;
+		}
+		for (const branch of candidate.upstack) {
+			if (!deletions.has(branch) && !restacked.has(branch)) {
+				restacked.set(branch, candidate.branch);
+			}
+		}
+	}
+	if (restacked.size === 0) {
+		return ['No branches are restacked'];
+	}
+	return [...restacked].map(([branch, deleted]) => `Restacked: ${branch} (after deleting ${deleted})`);
+}
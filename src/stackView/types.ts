@@ -1,3 +1,4 @@
+import type { ChangeChecksState, ChangeReviewDecision } from '../changeStatus/types';
 import type { GitSpiceBranch, GitSpiceChangeStatus } from '../gitSpiceSchema';
 import type { BranchReorderInfo as GitSpiceBranchReorderInfo } from '../utils/gitSpice';
 
@@ -13,20 +14,88 @@ export type BranchChangeViewModel = {
 	id: string;
 	url?: string;
 	status?: GitSpiceChangeStatus;
+	draft?: boolean;
+	review?: ChangeReviewDecision;
+	checks?: ChangeChecksState;
+	/** Lowest change in its stack that is not ready to merge, holding up the changes above it. */
+	blocksMerge?: boolean;
+};
+
+export type BranchPushViewModel = {
+	ahead: number;
+	behind: number;
+	needsPush: boolean;
+};
+
+export type BranchTreeViewModel = {
+	/** Indentation level: roots are 0, stacks on a root 1, and each fork adds one. */
+	depth: number;
+	/** Base branch, when it is part of the displayed tree. */
+	parent?: string;
+	/** Position among the branches sharing the same parent (0-based). */
+	siblingIndex: number;
+	siblingCount: number;
+	childCount: number;
 };
 
 export type BranchViewModel = {
 	name: string;
 	current: boolean;
 	restack: boolean;
+	tree: BranchTreeViewModel;
+	/** Name of the stack root (the branch directly on trunk) this branch belongs to. */
+	stack?: string;
 	change?: BranchChangeViewModel;
+	push?: BranchPushViewModel;
 	commits?: BranchCommitViewModel[];
 };
 
 export type BranchReorderInfo = GitSpiceBranchReorderInfo;
 
+/**
+ * `current` shows the current branch's stack; `all` shows every tracked stack under trunk.
+ */
+export type StackViewMode = 'current' | 'all';
+
+export type StackSectionViewModel = {
+	/** Name of the stack root branch. */
+	id: string;
+	branchCount: number;
+	current: boolean;
+	restack: boolean;
+};
+
+export type RebaseViewModel = {
+	branch?: string;
+	conflictedFiles: string[];
+};
+
+export type RepositoryViewModel = {
+	/** Repository root URI, used as the identifier in messages. */
+	id: string;
+	name: string;
+	path: string;
+};
+
+export type UndoableOperationViewModel = {
+	label: string;
+	timestamp: number;
+};
+
 export type DisplayState = {
 	branches: BranchViewModel[];
+	viewMode: StackViewMode;
+	stacks: StackSectionViewModel[];
 	error?: string;
 	pendingReorder?: BranchReorderInfo;
+	/** Set while a restack is paused on a rebase (usually due to conflicts). */
+	rebase?: RebaseViewModel;
+	repositories?: RepositoryViewModel[];
+	activeRepository?: string;
+	/** A git-spice command is running or queued; actions that change the repository are disabled. */
+	busy?: boolean;
+	/** Most recent operation that can be undone. */
+	lastOperation?: UndoableOperationViewModel;
+	/** Local branches git-spice does not track. */
+	untrackedBranches?: string[];
 };
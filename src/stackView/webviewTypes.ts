@@ -4,10 +4,21 @@ import type { DisplayState } from './types';
 export type WebviewMessage =
 	| { type: 'ready' }
 	| { type: 'refresh' }
+	| { type: 'selectRepository'; repository: string }
+	| { type: 'undo' }
+	| { type: 'branchCreatePrompt' }
+	| { type: 'branchDelete'; branchName: string }
+	| { type: 'branchTrack'; branchName: string }
+	| { type: 'branchTrackAll' }
+	| { type: 'upstackRestack'; branchName: string }
+	| { type: 'upstackSubmit'; branchName: string }
+	| { type: 'downstackSubmit'; branchName: string }
+	| { type: 'downstackEdit'; branchName: string }
+	| { type: 'upstackOntoPrompt'; branchName: string }
 	| { type: 'openChange'; url: string }
 	| { type: 'openCommit'; sha: string }
 	| { type: 'openCommitDiff'; sha: string }
-	| { type: 'branchDrop'; source: string; target: string }
+	| { type: 'branchDrop'; source: string; target: string; upstack?: boolean }
 	| { type: 'branchReorder'; oldIndex: number; newIndex: number; branchName: string }
 	| { type: 'confirmReorder'; branchName: string }
 	| { type: 'cancelReorder'; branchName: string }
@@ -20,9 +31,13 @@ export type WebviewMessage =
 	| { type: 'branchRename'; branchName: string; newName: string }
 	| { type: 'branchRestack'; branchName: string }
 	| { type: 'branchSubmit'; branchName: string }
+	| { type: 'branchSubmitPrompt'; branchName: string }
 	| { type: 'commitCopySha'; sha: string }
 	| { type: 'commitFixup'; sha: string }
-	| { type: 'commitSplit'; sha: string; branchName: string };
+	| { type: 'commitSplit'; sha: string; branchName: string }
+	| { type: 'rebaseContinue' }
+	| { type: 'rebaseAbort' }
+	| { type: 'openConflict'; path: string };
 
 // Messages from extension to webview
 export type ExtensionMessage =
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type * as vscode from 'vscode';
+
+import type { ChangeDetails } from '../changeStatus/types';
+import { FixtureChangeStatusProvider } from '../changeStatus/fixture';
+import { GitHubCliChangeStatusProvider, rollUpChecks } from '../changeStatus/githubCli';
+import { buildDisplayState } from '../stackView/state';
+import type { BranchRecord } from '../stackView/types';
+
+suite('rollUpChecks', () => {
+	test('has no state without checks', () => {
+		assert.strictEqual(rollUpChecks([]), undefined);
+	});
+
+	test('passes when every check run and status passed', () => {
+		assert.strictEqual(rollUpChecks([
+			{ status: 'COMPLETED', conclusion: 'SUCCESS' },
+			{ status: 'COMPLETED', conclusion: 'SKIPPED' },
+			{ state: 'SUCCESS' },
+		]), 'success');
+	});
+
+	test('fails on any failed check, even with others still running', () => {
+		assert.strictEqual(rollUpChecks([
+			{ status: 'IN_PROGRESS', conclusion: '' },
+			{ state: 'ERROR' },
+		]), 'failure');
+	});
+
+	test('stays pending while a check is unfinished or unknown', () => {
+		assert.strictEqual(rollUpChecks([{ status: 'COMPLETED', conclusion: 'SUCCESS' }, { status: 'QUEUED', conclusion: '' }]), 'pending');
+		assert.strictEqual(rollUpChecks([null]), 'pending');
+	});
+});
+
+suite('FixtureChangeStatusProvider', () => {
+	let directory: string;
+	const folder = (): vscode.WorkspaceFolder => ({ uri: { fsPath: directory } }) as unknown as vscode.WorkspaceFolder;
+	const changes = [
+		{ branch: 'feature-a', id: '#1', url: 'https://example.com/pull/1' },
+		{ branch: 'feature-b', id: '#2', url: 'https://example.com/pull/2' },
+		{ branch: 'feature-c', id: '#3', url: 'https://example.com/pull/3' },
+	];
+
+	setup(async () => {
+		directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-spice-fixture-'));
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(directory, { recursive: true, force: true });
+	});
+
+	test('reads details by change id or branch name relative to the repository', async () => {
+		await fs.promises.writeFile(path.join(directory, 'changes.json'), JSON.stringify({
+			'#1': { draft: true, review: 'approved', checks: 'failure' },
+			'feature-b': { review: 'bogus', checks: 'pending' },
+		}));
+
+		const result = await new FixtureChangeStatusProvider('changes.json').fetchDetails(folder(), changes);
+
+		assert.ok('value' in result);
+		assert.deepStrictEqual(Object.fromEntries(result.value), {
+			'feature-a': { draft: true, review: 'approved', checks: 'failure' },
+			'feature-b': { draft: undefined, review: undefined, checks: 'pending' },
+		});
+	});
+
+	test('reports a missing or malformed fixture', async () => {
+		const missing = await new FixtureChangeStatusProvider('missing.json').fetchDetails(folder(), changes);
+		assert.ok('error' in missing && /Failed to read change fixture/.test(missing.error));
+
+		await fs.promises.writeFile(path.join(directory, 'list.json'), '[]');
+		const malformed = await new FixtureChangeStatusProvider('list.json').fetchDetails(folder(), changes);
+		assert.ok('error' in malformed && /must contain a JSON object/.test(malformed.error));
+	});
+});
+
+suite('GitHubCliChangeStatusProvider', () => {
+	let directory: string;
+	let originalPath: string | undefined;
+	const folder = (): vscode.WorkspaceFolder => ({ uri: { fsPath: directory } }) as unknown as vscode.WorkspaceFolder;
+
+	setup(async function () {
+		// The stand-in is a shell script
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+		directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-spice-gh-'));
+		// Stand-in for `gh pr view <url> --json ...`: logs each url, fails for pull request 2
+		const script = [
+			'#!/bin/sh',
+			'echo "$3" >> "$(dirname "$0")/requests.log"',
+			'case "$3" in',
+			'  */2) echo "HTTP 502" >&2; exit 1 ;;',
+			'  *) echo \'{"isDraft":true,"reviewDecision":"APPROVED","statusCheckRollup":[]}\' ;;',
+			'esac',
+		].join('\n');
+		await fs.promises.writeFile(path.join(directory, 'gh'), script, { mode: 0o755 });
+		originalPath = process.env.PATH;
+		process.env.PATH = `${directory}${path.delimiter}${originalPath ?? ''}`;
+	});
+
+	teardown(async () => {
+		if (!directory) {
+			return;
+		}
+		process.env.PATH = originalPath;
+		await fs.promises.rm(directory, { recursive: true, force: true });
+	});
+
+	test('skips merged and closed changes and keeps the details that loaded', async () => {
+		const result = await new GitHubCliChangeStatusProvider().fetchDetails(folder(), [
+			{ branch: 'feature-a', id: '#1', url: 'https://example.com/pull/1', status: 'open' },
+			{ branch: 'feature-b', id: '#2', url: 'https://example.com/pull/2', status: 'open' },
+			{ branch: 'feature-c', id: '#3', url: 'https://example.com/pull/3', status: 'merged' },
+			{ branch: 'feature-d', id: '#4', url: 'https://example.com/pull/4' },
+		]);
+
+		assert.ok('value' in result);
+		assert.deepStrictEqual(Object.fromEntries(result.value), {
+			'feature-a': { draft: true, review: 'approved', checks: undefined },
+			'feature-d': { draft: true, review: 'approved', checks: undefined },
+		});
+		const requested = (await fs.promises.readFile(path.join(directory, 'requests.log'), 'utf8')).trim().split('\n').sort();
+		assert.deepStrictEqual(requested, ['https://example.com/pull/1', 'https://example.com/pull/2', 'https://example.com/pull/4']);
+	});
+
+	test('fails when no change could be loaded', async () => {
+		const result = await new GitHubCliChangeStatusProvider().fetchDetails(folder(), [
+			{ branch: 'feature-b', id: '#2', url: 'https://example.com/pull/2', status: 'open' },
+		]);
+
+		assert.ok('error' in result && /HTTP 502|Command failed/.test(result.error));
+	});
+});
+
+suite('merge blockers', () => {
+	const records: BranchRecord[] = [
+		{ name: 'main', ups: [{ name: 'a' }] },
+		{ name: 'a', down: { name: 'main' }, ups: [{ name: 'b' }], change: { id: '#1', url: 'https://example.com/pull/1', status: 'open' } },
+		{ name: 'b', down: { name: 'a' }, ups: [{ name: 'c' }], change: { id: '#2', url: 'https://example.com/pull/2', status: 'open' } },
+		{ name: 'c', current: true, down: { name: 'b' }, change: { id: '#3', url: 'https://example.com/pull/3', status: 'open' } },
+	];
+
+	function blockers(details: Record<string, ChangeDetails>): string[] {
+		const state = buildDisplayState(records, undefined, undefined, 'current', new Map(Object.entries(details)));
+		return state.branches.filter((branch) => branch.change?.blocksMerge).map((branch) => branch.name);
+	}
+
+	test('flags only the lowest change that is not ready', () => {
+		assert.deepStrictEqual(blockers({
+			a: { review: 'approved', checks: 'success' },
+			b: { checks: 'failure' },
+			c: { draft: true },
+		}), ['b']);
+	});
+
+	test('flags nothing when every change is ready or unknown', () => {
+		assert.deepStrictEqual(blockers({ a: { review: 'approved', checks: 'success' } }), []);
+	});
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+
+import {
+	buildSubmitArgs,
+	createPromptResponder,
+	type GitSpicePromptHandlers,
+	type InteractiveProcess,
+	type SubmitOptions,
+} from '../utils/gitSpice';
+
+const DEFAULTS: SubmitOptions = { draft: false, reviewers: [], labels: [], force: false, updateOnly: false };
+
+suite('buildSubmitArgs', () => {
+	test('fills ready change requests by default', () => {
+		assert.deepStrictEqual(buildSubmitArgs(DEFAULTS), ['--no-draft', '--fill']);
+	});
+
+	test('passes an edited title and body instead of filling', () => {
+		assert.deepStrictEqual(
+			buildSubmitArgs({ ...DEFAULTS, draft: true, title: 'Add parser', body: '' }),
+			['--draft', '--title', 'Add parser', '--body', ''],
+		);
+	});
+
+	test('repeats reviewer and label flags and adds force and update-only', () => {
+		assert.deepStrictEqual(
+			buildSubmitArgs({ ...DEFAULTS, reviewers: ['alice', 'org/team'], labels: ['stacked'], force: true, updateOnly: true }),
+			['--no-draft', '--fill', '--reviewer', 'alice', '--reviewer', 'org/team', '--label', 'stacked', '--force', '--update-only'],
+		);
+	});
+});
+
+/** Idle time before unknown prompts fail, short enough for the tests to wait out. */
+const IDLE_MS = 10;
+
+/**
+ * Feeds `chunks` to a responder and collects what it did to the process.
+ */
+async function respond(handlers: GitSpicePromptHandlers, chunks: ReadonlyArray<string>): Promise<{ answers: string[]; failures: string[]; cancelled: boolean }> {
+	const answers: string[] = [];
+	const failures: string[] = [];
+	let cancelled = false;
+	const process: InteractiveProcess = {
+		answer: (answer) => answers.push(answer),
+		fail: (message) => failures.push(message),
+		cancel: () => {
+			cancelled = true;
+		},
+	};
+	const responder = createPromptResponder(handlers, IDLE_MS);
+	chunks.forEach((chunk) => responder(chunk, process));
+	// Let the handler's promise settle and the idle timer run out
+	await new Promise((resolve) => setTimeout(resolve, IDLE_MS * 3));
+	return { answers, failures, cancelled };
+}
+
+suite('createPromptResponder', () => {
+	const asked: string[] = [];
+	const handlers: GitSpicePromptHandlers = {
+		deleteBranch: async (branch) => {
+			asked.push(branch);
+			return branch !== 'keep-me';
+		},
+		pickBase: async (branch, candidates) => {
+			asked.push(`${branch}: ${candidates.join(' ')}`);
+			return candidates[1];
+		},
+		confirmForcePush: async (branch) => {
+			asked.push(branch);
+			return true;
+		},
+	};
+
+	setup(() => {
+		asked.length = 0;
+	});
+
+	test('answers a prompt split across chunks once it is complete', async () => {
+		const result = await respond(handlers, ['INF fetching\nDelete bra', "nch 'feature-x'", '? [y/N] ']);
+
+		assert.deepStrictEqual(asked, ['feature-x']);
+		assert.deepStrictEqual(result.answers, ['y']);
+	});
+
+	test('recognizes a prompt wrapped in color codes', async () => {
+		const result = await respond(handlers, ["\u001b[1mDelete branch '\u001b[36mkeep-me\u001b[0m\u001b[1m'? [y/N]\u001b[0m "]);
+
+		assert.deepStrictEqual(asked, ['keep-me']);
+		assert.deepStrictEqual(result.answers, ['n']);
+	});
+
+	test('passes the candidates of a base prompt and answers with the pick', async () => {
+		const result = await respond(handlers, ["Select the base for 'feature-x' (main, feature-a):"]);
+
+		assert.deepStrictEqual(asked, ['feature-x: main feature-a']);
+		assert.deepStrictEqual(result.answers, ['feature-a']);
+	});
+
+	test('cancels the command when no base is picked', async () => {
+		const result = await respond({ pickBase: async () => undefined }, ["Select the base for 'feature-x' (main):"]);
+
+		assert.deepStrictEqual(result, { answers: [], failures: [], cancelled: true });
+	});
+
+	test('confirms a force push', async () => {
+		const result = await respond(handlers, ["Force push branch 'feature-x' over its diverged remote? [y/N] "]);
+
+		assert.deepStrictEqual(asked, ['feature-x']);
+		assert.deepStrictEqual(result.answers, ['y']);
+	});
+
+	test('fails on an unknown prompt that stays unanswered', async () => {
+		const result = await respond(handlers, ['INF restacking feature-x\n', 'Continue? [Y/n] ']);
+
+		assert.deepStrictEqual(result.answers, []);
+		assert.deepStrictEqual(result.failures, ['git-spice is waiting for input the extension does not recognize: "Continue? [Y/n]"']);
+	});
+
+	test('does not fail on finished lines or output that keeps coming', async () => {
+		const result = await respond(handlers, ['Fetching from origin:', ' done\n', 'INF restacking feature-x\n']);
+
+		assert.deepStrictEqual(result, { answers: [], failures: [], cancelled: false });
+	});
+
+	test('fails on a known prompt without a handler', async () => {
+		const result = await respond({}, ["Delete branch 'feature-x'? [y/N] "]);
+
+		assert.deepStrictEqual(result.answers, []);
+		assert.strictEqual(result.failures.length, 1);
+		assert.match(result.failures[0], /asked to delete a branch.*feature-x/);
+	});
+
+	test('answers "no" when the handler throws', async () => {
+		const result = await respond({ deleteBranch: () => Promise.reject(new Error('dismissed')) }, ["Delete branch 'feature-x'? [y/N] "]);
+
+		assert.deepStrictEqual(result.answers, ['n']);
+	});
+});
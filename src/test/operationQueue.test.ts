@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+
+import { enqueueMutation, enqueueRead, isRepositoryBusy, onDidChangeBusy } from '../utils/operationQueue';
+
+function deferred(): { promise: Promise<void>; resolve(): void } {
+	let resolve!: () => void;
+	const promise = new Promise<void>((done) => {
+		resolve = done;
+	});
+	return { promise, resolve };
+}
+
+suite('operationQueue', () => {
+	test('runs mutations one at a time in submission order', async () => {
+		const cwd = '/repo/order';
+		const events: string[] = [];
+		const gate = deferred();
+
+		const first = enqueueMutation(cwd, async () => {
+			events.push('first start');
+			await gate.promise;
+			events.push('first end');
+		});
+		const second = enqueueMutation(cwd, async () => {
+			events.push('second');
+		});
+
+		await Promise.resolve();
+		assert.deepStrictEqual(events, ['first start']);
+		gate.resolve();
+		await Promise.all([first, second]);
+
+		assert.deepStrictEqual(events, ['first start', 'first end', 'second']);
+	});
+
+	test('keeps running after a failed command', async () => {
+		const cwd = '/repo/failure';
+
+		await assert.rejects(enqueueMutation(cwd, () => Promise.reject(new Error('boom'))), /boom/);
+		assert.strictEqual(await enqueueMutation(cwd, async () => 'next'), 'next');
+	});
+
+	test('runs commands queued from inside a task in its slot', async () => {
+		const cwd = '/repo/nested';
+		const events: string[] = [];
+
+		const outer = enqueueMutation(cwd, async () => {
+			events.push('outer start');
+			await enqueueMutation(cwd, async () => {
+				events.push('inner');
+			});
+			events.push('outer end');
+		});
+		const next = enqueueMutation(cwd, async () => {
+			events.push('next');
+		});
+		await Promise.all([outer, next]);
+
+		assert.deepStrictEqual(events, ['outer start', 'inner', 'outer end', 'next']);
+	});
+
+	test('shares a waiting read with identical reads', async () => {
+		const cwd = '/repo/reads';
+		const gate = deferred();
+		let runs = 0;
+
+		const blocker = enqueueMutation(cwd, () => gate.promise);
+		const read = (): Promise<number> => enqueueRead(cwd, 'log', async () => {
+			runs += 1;
+			return runs;
+		});
+		const [a, b] = [read(), read()];
+		gate.resolve();
+		await blocker;
+
+		assert.deepStrictEqual(await Promise.all([a, b]), [1, 1]);
+		assert.strictEqual(await read(), 2);
+	});
+
+	test('reports the repository busy while mutations are queued', async () => {
+		const cwd = '/repo/busy';
+		const changes: boolean[] = [];
+		const subscription = onDidChangeBusy((event) => {
+			if (event.cwd === cwd) {
+				changes.push(event.busy);
+			}
+		});
+		const gate = deferred();
+
+		const running = enqueueMutation(cwd, () => gate.promise);
+		assert.strictEqual(isRepositoryBusy(cwd), true);
+		gate.resolve();
+		await running;
+
+		assert.strictEqual(isRepositoryBusy(cwd), false);
+		assert.deepStrictEqual(changes, [true, false]);
+		subscription.dispose();
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+
+import { createOutputReporter } from '../utils/progress';
+
+function report(lines: ReadonlyArray<string>, branches: ReadonlyArray<string>, defaultVerb?: string): Array<string | undefined> {
+	const messages: Array<string | undefined> = [];
+	const reporter = createOutputReporter({ report: (value) => messages.push(value.message) }, branches, defaultVerb);
+	lines.forEach(reporter);
+	return messages;
+}
+
+suite('createOutputReporter', () => {
+	test('reports the action and position of branch lines', () => {
+		const messages = report(
+			['INF Pushed feature-b', 'INF Created #12 for feature-a'],
+			['feature-a', 'feature-b'],
+		);
+
+		assert.deepStrictEqual(messages, ['Pushing feature-b (2/2)', 'Creating feature-a (1/2)']);
+	});
+
+	test('does not mistake a longer branch name for a shorter one', () => {
+		const messages = report(['\u001b[32mINF\u001b[0m feature-x-2: restacked'], ['feature-x', 'feature-x-2'], 'Syncing');
+
+		assert.deepStrictEqual(messages, ['Restacking feature-x-2 (2/2)']);
+	});
+
+	test('shows other lines without the log level, shortened', () => {
+		const long = `WRN ${'a'.repeat(100)}`;
+		const messages = report(['INF fetching from origin', '   ', long], []);
+
+		assert.strictEqual(messages.length, 2);
+		assert.strictEqual(messages[0], 'fetching from origin');
+		assert.strictEqual(messages[1]?.length, 80);
+		assert.ok(messages[1]?.endsWith('…'));
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+
+import { buildStackSummary } from '../stackView/stackSummary';
+import { buildDisplayState } from '../stackView/state';
+import type { BranchRecord } from '../stackView/types';
+
+suite('buildStackSummary', () => {
+	const records: BranchRecord[] = [
+		{ name: 'main', ups: [{ name: 'a' }] },
+		{ name: 'a', current: true, down: { name: 'main' }, ups: [{ name: 'b' }, { name: 'b2' }], change: { id: '#1', url: 'https://example.com/pull/1', status: 'merged' } },
+		{ name: 'b', down: { name: 'a' }, ups: [{ name: 'c' }] },
+		{ name: 'b2', down: { name: 'a' }, change: { id: '#2', url: 'https://example.com/pull/2', status: 'open' } },
+		{ name: 'c', down: { name: 'b' } },
+	];
+	const branches = buildDisplayState(records).branches;
+
+	test('nests every branch under its base and marks the highlighted branch', () => {
+		assert.strictEqual(buildStackSummary(branches, 'b'), [
+			'**Stack**',
+			'',
+			'- `main`',
+			'  - [#1](https://example.com/pull/1) `a` (merged)',
+			'    - [#2](https://example.com/pull/2) `b2`',
+			'    - **`b`** 👈',
+			'      - `c`',
+		].join('\n'));
+	});
+});
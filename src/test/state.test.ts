@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+
+import { buildDisplayState } from '../stackView/state';
+import type { BranchRecord } from '../stackView/types';
+
+/**
+ * Builds `gs ll --json` style records from `[name, base]` pairs; `current` marks the checked out branch.
+ */
+function branches(edges: ReadonlyArray<[string, string | undefined]>, current?: string): BranchRecord[] {
+	return edges.map(([name, base]) => ({
+		name,
+		current: name === current ? true : undefined,
+		down: base ? { name: base } : undefined,
+		ups: edges.filter(([, parent]) => parent === name).map(([child]) => ({ name: child })),
+	}));
+}
+
+function depths(records: BranchRecord[], current?: string): Record<string, number> {
+	const state = buildDisplayState(records, undefined, undefined, current ? 'current' : 'all');
+	return Object.fromEntries(state.branches.map((branch) => [branch.name, branch.tree.depth]));
+}
+
+suite('buildDisplayState tree', () => {
+	test('keeps a linear stack at one depth', () => {
+		const records = branches([['main', undefined], ['a', 'main'], ['b', 'a'], ['c', 'b']], 'c');
+
+		assert.deepStrictEqual(depths(records, 'c'), { main: 0, a: 1, b: 1, c: 1 });
+	});
+
+	test('indents only the forks', () => {
+		const records = branches([['main', undefined], ['a', 'main'], ['b', 'a'], ['b2', 'a'], ['c', 'b']], 'a');
+
+		assert.deepStrictEqual(depths(records, 'a'), { main: 0, a: 1, b: 1, b2: 2, c: 1 });
+	});
+
+	test('orders forks between the first child and their base', () => {
+		const records = branches([['main', undefined], ['a', 'main'], ['b', 'a'], ['b2', 'a']], 'a');
+		const state = buildDisplayState(records);
+
+		assert.deepStrictEqual(state.branches.map((branch) => branch.name), ['main', 'a', 'b2', 'b']);
+		const fork = state.branches.find((branch) => branch.name === 'b2')!;
+		assert.deepStrictEqual(fork.tree, { depth: 2, parent: 'a', siblingIndex: 1, siblingCount: 2, childCount: 0 });
+	});
+});
+
+suite('buildDisplayState view modes', () => {
+	const records = branches([
+		['main', undefined],
+		['a', 'main'],
+		['a2', 'a'],
+		['x', 'main'],
+		['x2', 'x'],
+		['x3', 'x'],
+	], 'a2');
+
+	test('shows only the current branch\'s stack in current mode', () => {
+		const state = buildDisplayState(records, undefined, undefined, 'current');
+
+		assert.strictEqual(state.viewMode, 'current');
+		assert.deepStrictEqual(state.branches.map((branch) => branch.name), ['main', 'a', 'a2']);
+		assert.deepStrictEqual(state.stacks, []);
+	});
+
+	test('assigns every branch above trunk to the stack it sits on in all mode', () => {
+		const state = buildDisplayState(records, undefined, undefined, 'all');
+
+		assert.strictEqual(state.viewMode, 'all');
+		assert.deepStrictEqual(
+			Object.fromEntries(state.branches.map((branch) => [branch.name, branch.stack])),
+			{ main: undefined, a: 'a', a2: 'a', x: 'x', x2: 'x', x3: 'x' },
+		);
+		assert.deepStrictEqual(state.stacks, [
+			{ id: 'a', branchCount: 2, current: true, restack: false },
+			{ id: 'x', branchCount: 3, current: false, restack: false },
+		]);
+	});
+
+	test('falls back to all stacks without a current branch', () => {
+		const detached = records.map((record) => ({ ...record, current: undefined }));
+
+		assert.strictEqual(buildDisplayState(detached, undefined, undefined, 'current').viewMode, 'all');
+	});
+});
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+
+const CHANNEL_NAME = 'git-spice';
+const SHOW_LOG_ACTION = 'Show Log';
+
+export type CommandLogEntry = Readonly<{
+	command: string;
+	args: ReadonlyArray<string>;
+	cwd: string;
+	durationMs: number;
+	/** `null` when the process never exited normally (spawn failure, timeout, cancellation). */
+	exitCode: number | null;
+	stdout: string;
+	stderr: string;
+	error?: string;
+}>;
+
+let channel: vscode.OutputChannel | undefined;
+let entryCount = 0;
+
+/**
+ * Creates the "git-spice" output channel. Entries logged before this is called are dropped.
+ */
+export function initializeCommandLog(): vscode.Disposable {
+	channel = vscode.window.createOutputChannel(CHANNEL_NAME);
+	return new vscode.Disposable(() => {
+		channel?.dispose();
+		channel = undefined;
+	});
+}
+
+/**
+ * Records one CLI invocation with its full output.
+ *
+ * @returns The entry number, referenced from error messages so users can find the entry
+ */
+export function logCommand(entry: CommandLogEntry): number {
+	entryCount += 1;
+	if (!channel) {
+		return entryCount;
+	}
+
+	const commandLine = [entry.command, ...entry.args].map(quoteArg).join(' ');
+	const status = entry.exitCode === null ? 'did not exit' : `exit code ${entry.exitCode}`;
+	channel.appendLine(`[${new Date().toISOString()}] #${entryCount} ${commandLine}`);
+	channel.appendLine(`  cwd: ${entry.cwd}`);
+	channel.appendLine(`  ${status} after ${entry.durationMs} ms`);
+	if (entry.error) {
+		channel.appendLine(`  error: ${entry.error}`);
+	}
+	appendStream('stdout', entry.stdout);
+	appendStream('stderr', entry.stderr);
+	channel.appendLine('');
+	return entryCount;
+}
+
+/**
+ * Writes a free-form line to the log, for progress that is not tied to a single invocation.
+ */
+export function logMessage(message: string): void {
+	channel?.appendLine(`[${new Date().toISOString()}] ${message}`);
+}
+
+export function showCommandLog(): void {
+	channel?.show(true);
+}
+
+/**
+ * Shows an error notification with a "Show Log" button that reveals the command log,
+ * where the failing invocation's full stdout and stderr are recorded.
+ */
+export async function showErrorWithLog(message: string): Promise<void> {
+	const choice = await vscode.window.showErrorMessage(message, SHOW_LOG_ACTION);
+	if (choice === SHOW_LOG_ACTION) {
+		showCommandLog();
+	}
+}
+
+function appendStream(label: string, content: string): void {
+	const trimmed = content.trimEnd();
+	if (!channel || trimmed.length === 0) {
+		return;
+	}
+	channel.appendLine(`  ${label}:`);
+	for (const line of trimmed.split(/\r?\n/)) {
+		channel.appendLine(`    ${line}`);
+	}
+}
+
+function quoteArg(arg: string): string {
+	return /^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg);
+}
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+
+const CONFIG_SECTION = 'git-spice';
+const DEFAULT_BINARY = 'gs';
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_BRANCH_CREATE_TIMEOUT_MS = 10_000;
+
+export type GitSpiceConfig = Readonly<{
+	/** Executable to run: a name resolved on PATH or an absolute path. */
+	binaryPath: string;
+	/** Arguments inserted before every subcommand. */
+	extraArgs: ReadonlyArray<string>;
+	/** Variables merged over the extension host's environment. */
+	env: Readonly<Record<string, string>>;
+	timeoutMs: number;
+	branchCreateTimeoutMs: number;
+}>;
+
+/** Where review and CI state of change requests comes from; `none` turns the lookup off. */
+export type ChangeStatusSource = 'none' | 'github' | 'fixture';
+
+export type ChangeStatusConfig = Readonly<{
+	source: ChangeStatusSource;
+	/** JSON file read by the `fixture` source, relative to the repository root. */
+	fixturePath: string;
+}>;
+
+/**
+ * Defaults for `gs branch|upstack|downstack|stack submit`, pre-selected in the submit dialog.
+ */
+export type SubmitDefaults = Readonly<{
+	draft: boolean;
+	/** Fill change request titles and bodies from commit messages. */
+	fill: boolean;
+	reviewers: ReadonlyArray<string>;
+	labels: ReadonlyArray<string>;
+	force: boolean;
+	/** Only push branches that already have a change request. */
+	updateOnly: boolean;
+	/** Add a stack summary to change request bodies edited before submitting. */
+	stackSummary: boolean;
+}>;
+
+const CHANGE_STATUS_SOURCES: ReadonlyArray<ChangeStatusSource> = ['none', 'github', 'fixture'];
+
+/**
+ * Reads the git-spice settings. Values are read on every call so changes apply without a reload.
+ */
+export function getGitSpiceConfig(): GitSpiceConfig {
+	const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+
+	const binaryPath = config.get<string>('binaryPath', DEFAULT_BINARY).trim();
+	const extraArgs = config.get<unknown[]>('extraArgs', []).filter((arg): arg is string => typeof arg === 'string' && arg.length > 0);
+	const rawEnv = config.get<Record<string, unknown>>('env', {});
+	const env: Record<string, string> = {};
+	for (const [key, value] of Object.entries(rawEnv ?? {})) {
+		if (typeof value === 'string') {
+			env[key] = value;
+		}
+	}
+
+	return {
+		binaryPath: binaryPath.length > 0 ? binaryPath : DEFAULT_BINARY,
+		extraArgs,
+		env,
+		timeoutMs: readTimeout(config, 'timeout', DEFAULT_TIMEOUT_MS),
+		branchCreateTimeoutMs: readTimeout(config, 'branchCreateTimeout', DEFAULT_BRANCH_CREATE_TIMEOUT_MS),
+	};
+}
+
+export function getChangeStatusConfig(): ChangeStatusConfig {
+	const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+	const source = config.get<string>('changeStatus.provider', 'none');
+	return {
+		source: CHANGE_STATUS_SOURCES.find((candidate) => candidate === source) ?? 'none',
+		fixturePath: config.get<string>('changeStatus.fixturePath', '').trim(),
+	};
+}
+
+/**
+ * Reads the submit defaults, including settings scoped to `folder` (workspace folder or `.vscode/settings.json`).
+ */
+export function getSubmitDefaults(folder?: vscode.WorkspaceFolder): SubmitDefaults {
+	const config = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.submit`, folder?.uri);
+	return {
+		draft: config.get<boolean>('draft', false) === true,
+		fill: config.get<boolean>('fill', true) !== false,
+		reviewers: readStringList(config, 'reviewers'),
+		labels: readStringList(config, 'labels'),
+		force: config.get<boolean>('force', false) === true,
+		updateOnly: config.get<boolean>('updateOnly', false) === true,
+		stackSummary: config.get<boolean>('stackSummary', true) !== false,
+	};
+}
+
+export function affectsChangeStatus(event: vscode.ConfigurationChangeEvent): boolean {
+	return event.affectsConfiguration(`${CONFIG_SECTION}.changeStatus`);
+}
+
+/**
+ * Returns true when the change affects how the git-spice binary is invoked.
+ */
+export function affectsGitSpiceBinary(event: vscode.ConfigurationChangeEvent): boolean {
+	return ['binaryPath', 'extraArgs', 'env'].some((key) => event.affectsConfiguration(`${CONFIG_SECTION}.${key}`));
+}
+
+function readStringList(config: vscode.WorkspaceConfiguration, key: string): string[] {
+	return config.get<unknown[]>(key, [])
+		.filter((value): value is string => typeof value === 'string')
+		.map((value) => value.trim())
+		.filter((value) => value.length > 0);
+}
+
+function readTimeout(config: vscode.WorkspaceConfiguration, key: string, fallback: number): number {
+	const value = config.get<number>(key, fallback);
+	return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export type EditorPromptOptions = Readonly<{
+	/** File name shown on the editor tab; its extension picks the language mode. */
+	fileName: string;
+	content: string;
+	/** Notification text shown while the editor is open; it has a Cancel button. */
+	message: string;
+}>;
+
+/**
+ * Lets the user edit text in a regular editor tab, like git opening `$EDITOR`.
+ * Resolves with the saved text once the tab is closed after saving, or `undefined` when it is
+ * closed without ever saving ("Don't Save") or the notification's Cancel is clicked.
+ * The notification goes away with the tab.
+ */
+export async function editInEditor(options: EditorPromptOptions): Promise<string | undefined> {
+	const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-spice-'));
+	const filePath = path.join(directory, options.fileName);
+	const uri = vscode.Uri.file(filePath);
+
+	let saved = false;
+	const saveListener = vscode.workspace.onDidSaveTextDocument((document) => {
+		if (document.uri.toString() === uri.toString()) {
+			saved = true;
+		}
+	});
+
+	try {
+		await fs.promises.writeFile(filePath, options.content, 'utf8');
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document, { preview: false });
+
+		const accepted = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: options.message,
+			cancellable: true,
+		}, async (_progress, token) => {
+			const closed = waitForTabClose(uri);
+			let cancellation: vscode.Disposable | undefined;
+			const cancelled = new Promise<boolean>((resolve) => {
+				cancellation = token.onCancellationRequested(() => resolve(false));
+			});
+			try {
+				return await Promise.race([closed.promise.then(() => saved), cancelled]);
+			} finally {
+				closed.dispose();
+				cancellation?.dispose();
+			}
+		});
+
+		await closeTabs(uri);
+		return accepted ? await fs.promises.readFile(filePath, 'utf8') : undefined;
+	} finally {
+		saveListener.dispose();
+		await fs.promises.rm(directory, { recursive: true, force: true }).catch(() => undefined);
+	}
+}
+
+function findTabs(uri: vscode.Uri): vscode.Tab[] {
+	return vscode.window.tabGroups.all
+		.flatMap((group) => group.tabs)
+		.filter((tab) => tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === uri.toString());
+}
+
+/**
+ * Saves pending edits, so closing does not ask about unsaved changes, then closes the editor.
+ * On cancel the saved text is simply discarded with the temporary directory.
+ */
+async function closeTabs(uri: vscode.Uri): Promise<void> {
+	const document = vscode.workspace.textDocuments.find((candidate) => candidate.uri.toString() === uri.toString());
+	if (document?.isDirty) {
+		await document.save();
+	}
+	const tabs = findTabs(uri);
+	if (tabs.length > 0) {
+		await vscode.window.tabGroups.close(tabs);
+	}
+}
+
+function waitForTabClose(uri: vscode.Uri): { promise: Promise<void>; dispose(): void } {
+	let listener: vscode.Disposable | undefined;
+	const promise = new Promise<void>((resolve) => {
+		listener = vscode.window.tabGroups.onDidChangeTabs(() => {
+			if (findTabs(uri).length === 0) {
+				resolve();
+			}
+		});
+	});
+	return { promise, dispose: () => listener?.dispose() };
+}
@@ -0,0 +1,275 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import * as vscode from 'vscode';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+const execFileAsync = promisify(execFile);
+const GIT_BINARY = 'git';
+const GIT_TIMEOUT_MS = 10_000;
+
+export type RebaseState = Readonly<{
+	/** Branch being rebased, when git recorded one. */
+	branch?: string;
+	conflictedFiles: ReadonlyArray<string>;
+}>;
+
+export type RebaseStateResult = { value: RebaseState | undefined } | { error: string };
+
+/**
+ * Branch heads and git-spice metadata refs at one point in time.
+ */
+export type RefSnapshot = Readonly<{
+	/** Checked out branch, or undefined with a detached HEAD. */
+	headBranch?: string;
+	headSha: string;
+	/** Full ref name (`refs/heads/*`, `refs/spice/*`) to object id. */
+	refs: Readonly<Record<string, string>>;
+}>;
+
+export type RefSnapshotResult = { value: RefSnapshot } | { error: string };
+export type RefRestoreResult = { value: void } | { error: string };
+
+export type LocalBranchListResult = { value: string[] } | { error: string };
+export type CommitMessagesResult = { value: string[] } | { error: string };
+
+/** Refs captured in snapshots: local branches and git-spice's metadata (`refs/spice/data`). */
+const SNAPSHOT_REF_PREFIXES = ['refs/heads', 'refs/spice'];
+const BRANCH_REF_PREFIX = 'refs/heads/';
+
+function toErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+async function runGit(folder: vscode.WorkspaceFolder, args: ReadonlyArray<string>): Promise<string> {
+	const { stdout } = await execFileAsync(GIT_BINARY, args, {
+		cwd: folder.uri.fsPath,
+		timeout: GIT_TIMEOUT_MS,
+	});
+	return stdout;
+}
+
+async function pathExists(target: string): Promise<boolean> {
+	try {
+		await fs.promises.access(target);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Resolves the repository's git directory. This is not always `<root>/.git`:
+ * worktrees and submodules point to a directory elsewhere.
+ */
+export async function getGitDir(folder: vscode.WorkspaceFolder): Promise<string> {
+	const stdout = await runGit(folder, ['rev-parse', '--git-dir']);
+	return path.resolve(folder.uri.fsPath, stdout.trim());
+}
+
+/**
+ * Detects a rebase that is paused in the repository (for example a restack that hit conflicts)
+ * and lists the files that still have unresolved conflicts.
+ *
+ * @returns `undefined` as the value when no rebase is in progress
+ */
+export async function getRebaseState(folder: vscode.WorkspaceFolder): Promise<RebaseStateResult> {
+	try {
+		const gitDir = await getGitDir(folder);
+		let activeDir: string | undefined;
+		for (const candidate of ['rebase-merge', 'rebase-apply']) {
+			if (await pathExists(path.join(gitDir, candidate))) {
+				activeDir = path.join(gitDir, candidate);
+				break;
+			}
+		}
+		if (!activeDir) {
+			return { value: undefined };
+		}
+
+		let branch: string | undefined;
+		try {
+			const headName = await fs.promises.readFile(path.join(activeDir, 'head-name'), 'utf8');
+			branch = headName.trim().replace(/^refs\/heads\//, '') || undefined;
+		} catch {
+			// head-name is missing when rebasing a detached HEAD
+		}
+
+		const stdout = await runGit(folder, ['diff', '--name-only', '--diff-filter=U', '-z']);
+		const conflictedFiles = stdout.split('\0').filter((file) => file.length > 0);
+
+		return { value: { branch, conflictedFiles } };
+	} catch (error) {
+		return { error: `Failed to read rebase state: ${toErrorMessage(error)}` };
+	}
+}
+
+/**
+ * Records the current branch heads, git-spice metadata refs and HEAD so they can be restored later.
+ */
+export async function snapshotRefs(folder: vscode.WorkspaceFolder): Promise<RefSnapshotResult> {
+	try {
+		const [refsOutput, headSha, headRef] = await Promise.all([
+			runGit(folder, ['for-each-ref', '--format=%(refname) %(objectname)', ...SNAPSHOT_REF_PREFIXES]),
+			runGit(folder, ['rev-parse', 'HEAD']),
+			// Exits non-zero with a detached HEAD
+			runGit(folder, ['symbolic-ref', '-q', 'HEAD']).catch(() => ''),
+		]);
+
+		const refs: Record<string, string> = {};
+		for (const line of refsOutput.split('\n')) {
+			const [name, sha] = line.trim().split(' ');
+			if (name && sha) {
+				refs[name] = sha;
+			}
+		}
+
+		const headName = headRef.trim();
+		return {
+			value: {
+				headBranch: headName.startsWith(BRANCH_REF_PREFIX) ? headName.slice(BRANCH_REF_PREFIX.length) : undefined,
+				headSha: headSha.trim(),
+				refs,
+			},
+		};
+	} catch (error) {
+		return { error: `Failed to snapshot refs: ${toErrorMessage(error)}` };
+	}
+}
+
+/**
+ * Lists refs whose value differs between two snapshots, including refs only present in one of them.
+ */
+export function diffSnapshots(before: RefSnapshot, after: RefSnapshot): string[] {
+	const names = new Set([...Object.keys(before.refs), ...Object.keys(after.refs)]);
+	return [...names].filter((name) => before.refs[name] !== after.refs[name]).sort();
+}
+
+/**
+ * Moves refs back to a snapshot: changed refs are reset, refs created since are deleted and the
+ * snapshot's HEAD is checked out again. The checked out branch is moved with `git reset --keep`,
+ * which refuses (leaving the other refs restored) when uncommitted changes would be lost.
+ */
+export async function restoreRefs(folder: vscode.WorkspaceFolder, snapshot: RefSnapshot, reason: string): Promise<RefRestoreResult> {
+	try {
+		const current = await snapshotRefs(folder);
+		if ('error' in current) {
+			return current;
+		}
+		const rebase = await getRebaseState(folder);
+		if ('value' in rebase && rebase.value) {
+			return { error: 'A rebase is in progress. Continue or abort it before undoing.' };
+		}
+
+		const currentHeadRef = current.value.headBranch ? `${BRANCH_REF_PREFIX}${current.value.headBranch}` : undefined;
+		const setRef = async (name: string, sha: string | undefined): Promise<void> => {
+			await runGit(folder, sha ? ['update-ref', '-m', reason, name, sha] : ['update-ref', '-d', name]);
+		};
+
+		for (const name of diffSnapshots(snapshot, current.value)) {
+			if (name !== currentHeadRef) {
+				await setRef(name, snapshot.refs[name]);
+			}
+		}
+
+		if (snapshot.headBranch && snapshot.headBranch === current.value.headBranch) {
+			if (snapshot.headSha !== current.value.headSha) {
+				await runGit(folder, ['reset', '--keep', snapshot.headSha]);
+			}
+			return { value: undefined };
+		}
+
+		// HEAD moved during the operation: check out the old HEAD, then fix up the branch we left
+		await runGit(folder, snapshot.headBranch ? ['checkout', snapshot.headBranch] : ['checkout', '--detach', snapshot.headSha]);
+		if (currentHeadRef && snapshot.refs[currentHeadRef] !== current.value.refs[currentHeadRef]) {
+			await setRef(currentHeadRef, snapshot.refs[currentHeadRef]);
+		}
+		return { value: undefined };
+	} catch (error) {
+		return { error: `Failed to restore refs: ${toErrorMessage(error)}` };
+	}
+}
+
+/**
+ * Lists local branch names, including branches git-spice does not track.
+ */
+export async function listLocalBranches(folder: vscode.WorkspaceFolder): Promise<LocalBranchListResult> {
+	try {
+		const stdout = await runGit(folder, ['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+		return { value: stdout.split('\n').map((line) => line.trim()).filter((line) => line.length > 0) };
+	} catch (error) {
+		return { error: `Failed to list branches: ${toErrorMessage(error)}` };
+	}
+}
+
+/**
+ * Guesses which of `candidates` a branch was created from: the candidate nearest to the branch,
+ * counted in commits from their merge-base to the branch tip. Candidates built on top of the
+ * branch are skipped, except the first one: callers list trunk first, and trunk may already have
+ * merged the branch. Ties go to the earlier candidate.
+ *
+ * @returns `undefined` when no candidate shares history with the branch
+ */
+export async function guessBranchBase(
+	folder: vscode.WorkspaceFolder,
+	branch: string,
+	candidates: ReadonlyArray<string>,
+): Promise<string | undefined> {
+	const others = candidates.filter((name) => name !== branch);
+	if (others.length === 0) {
+		return undefined;
+	}
+	const branchRef = `${BRANCH_REF_PREFIX}${branch}`;
+	try {
+		const refs = others.map((name) => `${BRANCH_REF_PREFIX}${name}`);
+		const containing = await listBranchNames(folder, ['--contains', branchRef, ...refs]);
+		const atTip = await listBranchNames(folder, ['--points-at', branchRef, ...refs]);
+		const total = await countCommits(folder, branchRef);
+
+		const distances = new Map<string, number>();
+		for (const name of others) {
+			const distance = await countCommits(folder, `${BRANCH_REF_PREFIX}${name}..${branchRef}`);
+			// Every commit of the branch counted: no shared history
+			if (distance < total) {
+				distances.set(name, distance);
+			}
+		}
+
+		// Strict descendants are built on top of the branch
+		const eligible = others.filter((name) => distances.has(name)
+			&& (name === candidates[0] || !containing.has(name) || atTip.has(name)));
+		return eligible.reduce<string | undefined>(
+			(best, name) => (best === undefined || distances.get(name)! < distances.get(best)! ? name : best),
+			undefined,
+		);
+	} catch {
+		return undefined;
+	}
+}
+
+async function countCommits(folder: vscode.WorkspaceFolder, range: string): Promise<number> {
+	return Number.parseInt((await runGit(folder, ['rev-list', '--count', range, '--'])).trim(), 10);
+}
+
+async function listBranchNames(folder: vscode.WorkspaceFolder, args: ReadonlyArray<string>): Promise<Set<string>> {
+	const stdout = await runGit(folder, ['for-each-ref', '--format=%(refname)', ...args]);
+	return new Set(stdout.split('\n')
+		.map((line) => line.trim())
+		.filter((line) => line.startsWith(BRANCH_REF_PREFIX))
+		.map((line) => line.slice(BRANCH_REF_PREFIX.length)));
+}
+
+/**
+ * Reads the full messages of the commits on `branch` that are not on `base`, oldest first.
+ */
+export async function getCommitMessages(folder: vscode.WorkspaceFolder, base: string, branch: string): Promise<CommitMessagesResult> {
+	try {
+		// NUL-separated, since messages span several lines
+		const stdout = await runGit(folder, ['log', '--reverse', '--format=%B%x00', `${base}..${branch}`, '--']);
+		return {
+			value: stdout.split('\0').map((message) => message.trim()).filter((message) => message.length > 0),
+		};
+	} catch (error) {
+		return { error: `Failed to read commits of ${branch}: ${toErrorMessage(error)}` };
+	}
+}
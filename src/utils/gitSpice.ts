@@ -1,25 +1,48 @@
-import { execFile, spawn } from 'node:child_process';
-import { promisify } from 'node:util';
+import { spawn } from 'node:child_process';
 import * as vscode from 'vscode';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 
 import { parseGitSpiceBranches, type GitSpiceBranch } from '../gitSpiceSchema';
+import { logCommand } from './commandLog';
+import { getGitSpiceConfig, getSubmitDefaults, type SubmitDefaults } from './config';
+import { snapshotRefs, type RefSnapshot } from './git';
+import { enqueueMutation, enqueueRead } from './operationQueue';
 
-const execFileAsync = promisify(execFile);
-const GIT_SPICE_BINARY = 'gs';
-const DEFAULT_TIMEOUT_MS = 30_000;
-const BRANCH_CREATE_TIMEOUT_MS = 10_000;
+const VERSION_CHECK_TIMEOUT_MS = 5_000;
+/** Time a cancelled or timed-out process gets to exit after SIGTERM before it is killed outright. */
+const KILL_GRACE_MS = 2_000;
+/** Time an unanswered, unrecognized prompt may sit on stdout before the command is stopped. */
+const UNKNOWN_PROMPT_IDLE_MS = 1_500;
+/** Longest unterminated stdout line kept while waiting for a prompt to complete. */
+const MAX_PROMPT_LENGTH = 4_096;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+/** Unterminated output ending like a question or input field; git-spice is probably waiting for an answer. */
+const PROMPT_LIKE = /[?:\]]\s*$/;
+
+/** Oldest release with `--json` output for `gs log long`, which the stack view depends on. */
+export const MIN_GIT_SPICE_VERSION = '0.12.0';
 
 type NormalizedString = { value: string } | { error: string };
 type GitSpiceArgs = ReadonlyArray<string>;
 
+/** Error result of a command the user cancelled; `cancelled` tells it apart from a failure. */
+type CommandFailure = { error: string; cancelled?: boolean };
+
 export type BranchLoadResult = { value: GitSpiceBranch[] } | { error: string };
-export type StackEditResult = { value: void } | { error: string };
-export type BranchCommandResult = { value: void } | { error: string };
+export type StackEditResult = { value: void } | CommandFailure;
+export type BranchCommandResult = { value: void } | CommandFailure;
 export type BranchReorderInfo = Readonly<{ oldIndex: number; newIndex: number; branchName: string }>;
-export type RepoSyncResult = { value: { deletedBranches: string[]; syncedBranches: number } } | { error: string };
+export type RepoSyncResult = { value: { deletedBranches: string[]; syncedBranches: number } } | CommandFailure;
+export type VersionCheckResult = { value: string } | { error: string; kind: 'missing' | 'outdated' | 'failed' };
+
+type GitSpiceInvocation = Readonly<{
+	command: string;
+	args: ReadonlyArray<string>;
+	env: NodeJS.ProcessEnv;
+}>;
 
 function toErrorMessage(error: unknown): string {
 	return error instanceof Error ? error.message : String(error);
@@ -41,33 +64,411 @@ function normalizeNonEmpty(value: string, field: string): NormalizedString {
 	return { value: trimmed };
 }
 
+function isPositiveInteger(value: number): boolean {
+	return Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Options for long-running commands.
+ */
+export type CommandRunOptions = Readonly<{
+	/** Kills the process when cancellation is requested. */
+	token?: vscode.CancellationToken;
+	/** Receives each non-empty stdout and stderr line as it is printed. */
+	onOutput?: (line: string) => void;
+}>;
+
+/**
+ * Handle on a running process for answering its prompts.
+ */
+export type InteractiveProcess = Readonly<{
+	/** Writes `answer` and a newline to stdin. */
+	answer(answer: string): void;
+	/** Stops the process; the command rejects with `message`. */
+	fail(message: string): void;
+	/** Stops the process as if the user cancelled it. */
+	cancel(): void;
+}>;
+
+type ProcessRunOptions = CommandRunOptions & Readonly<{
+	timeoutMs?: number;
+	/** Receives raw stdout chunks, for answering interactive prompts. */
+	onStdout?: (chunk: string, process: InteractiveProcess) => void;
+}>;
+
+/**
+ * Callbacks that answer git-spice prompts, usually by asking the user in VS Code.
+ * A command fails when git-spice asks something it has no callback for.
+ */
+export type GitSpicePromptHandlers = Readonly<{
+	/** "Delete branch 'x'?" after its change request was merged or closed; `true` deletes it. */
+	deleteBranch?: (branch: string) => Promise<boolean>;
+	/** Asks for the base of `branch` among `candidates`; `undefined` cancels the command. */
+	pickBase?: (branch: string, candidates: string[]) => Promise<string | undefined>;
+	/** Asks before force pushing `branch` over a diverged remote branch; `true` pushes. */
+	confirmForcePush?: (branch: string) => Promise<boolean>;
+}>;
+
+type PromptDefinition = Readonly<{
+	kind: keyof GitSpicePromptHandlers;
+	description: string;
+	/** Matched against the last, unterminated stdout line with ANSI escapes removed. */
+	pattern: RegExp;
+	/**
+	 * Asks the handler and returns the text to write to stdin, or `undefined` to cancel the command.
+	 */
+	answer(match: RegExpMatchArray, handlers: GitSpicePromptHandlers): Promise<string | undefined>;
+}>;
+
+/**
+ * Prompts git-spice prints when it has no terminal to draw its selection widgets on.
+ * Yes/no prompts default to "no" when the handler throws, like pressing Enter would.
+ */
+const KNOWN_PROMPTS: ReadonlyArray<PromptDefinition> = [
+	{
+		kind: 'deleteBranch',
+		description: 'delete a branch',
+		pattern: /Delete branch '([^']+)'\?\s*\[y\/N\]:?\s*$/i,
+		answer: (match, handlers) => answerYesNo(handlers.deleteBranch!(match[1])),
+	},
+	{
+		kind: 'confirmForcePush',
+		description: 'confirm a force push',
+		pattern: /Force push (?:branch )?'([^']+)'[^?]*\?\s*\[y\/N\]:?\s*$/i,
+		answer: (match, handlers) => answerYesNo(handlers.confirmForcePush!(match[1])),
+	},
+	{
+		kind: 'pickBase',
+		description: 'pick a base branch',
+		pattern: /(?:Select|Pick|Choose) (?:a |the )?base (?:branch )?(?:for '([^']+)')?\s*\(([^)]*)\)\s*:?\s*$/i,
+		answer: async (match, handlers) => {
+			const candidates = match[2].split(',').map((candidate) => candidate.trim()).filter((candidate) => candidate.length > 0);
+			return handlers.pickBase!(match[1] ?? 'the branch', candidates);
+		},
+	},
+];
+
+async function answerYesNo(decision: Promise<boolean>): Promise<string> {
+	try {
+		return (await decision) ? 'y' : 'n';
+	} catch {
+		return 'n';
+	}
+}
+
+/**
+ * Watches stdout for prompts, buffering the current line across chunks so prompts split over
+ * several `data` events (or wrapped in color codes) are still recognized. Known prompts are
+ * answered through `handlers`; a known prompt without a handler, or prompt-like output that
+ * matches nothing and stays unanswered for `unknownPromptIdleMs`, fails the command with the
+ * prompt text instead of letting it hang until the timeout.
+ */
+export function createPromptResponder(
+	handlers: GitSpicePromptHandlers,
+	unknownPromptIdleMs = UNKNOWN_PROMPT_IDLE_MS,
+): (chunk: string, process: InteractiveProcess) => void {
+	let pending = '';
+	let answering = false;
+	let idleTimer: NodeJS.Timeout | undefined;
+
+	return (chunk, process) => {
+		clearTimeout(idleTimer);
+		const lastBreak = Math.max(chunk.lastIndexOf('\n'), chunk.lastIndexOf('\r'));
+		pending = (lastBreak >= 0 ? chunk.slice(lastBreak + 1) : pending + chunk).slice(-MAX_PROMPT_LENGTH);
+		if (answering) {
+			return;
+		}
+
+		const line = pending.replace(ANSI_ESCAPE, '');
+		for (const prompt of KNOWN_PROMPTS) {
+			const match = line.match(prompt.pattern);
+			if (!match) {
+				continue;
+			}
+			pending = '';
+			if (!handlers[prompt.kind]) {
+				process.fail(`git-spice asked to ${prompt.description}, which this command does not handle: "${line.trim()}"`);
+				return;
+			}
+			answering = true;
+			void prompt.answer(match, handlers).then(
+				(answer) => (answer === undefined ? process.cancel() : process.answer(answer)),
+				(error: unknown) => process.fail(`Failed to answer git-spice prompt "${line.trim()}": ${toErrorMessage(error)}`),
+			).finally(() => {
+				answering = false;
+			});
+			return;
+		}
+
+		if (PROMPT_LIKE.test(line)) {
+			idleTimer = setTimeout(
+				() => process.fail(`git-spice is waiting for input the extension does not recognize: "${line.trim()}"`),
+				unknownPromptIdleMs,
+			);
+		}
+	};
+}
+
+class CommandCancelledError extends Error {
+	constructor(entry?: number) {
+		super(entry === undefined ? 'Cancelled' : `Cancelled (see git-spice log entry #${entry})`);
+	}
+}
+
+function toCommandFailure(context: string, error: unknown): CommandFailure {
+	return error instanceof CommandCancelledError
+		? { error: `${context}: ${error.message}`, cancelled: true }
+		: { error: `${context}: ${toErrorMessage(error)}` };
+}
+
+/**
+ * Applies the user's binary path, extra arguments and environment settings to a git-spice command.
+ */
+function buildInvocation(args: GitSpiceArgs): GitSpiceInvocation {
+	const config = getGitSpiceConfig();
+	return {
+		command: config.binaryPath,
+		args: [...config.extraArgs, ...args],
+		env: { ...process.env, ...config.env },
+	};
+}
+
+/**
+ * Splits streamed output into lines, treating carriage returns (progress redraws) as line breaks.
+ */
+function createLineSplitter(onLine: (line: string) => void): { push(chunk: string): void; flush(): void } {
+	let pending = '';
+	const emit = (line: string): void => {
+		const trimmed = line.trim();
+		if (trimmed.length > 0) {
+			onLine(trimmed);
+		}
+	};
+	return {
+		push(chunk) {
+			const lines = (pending + chunk).split(/\r\n|\r|\n/);
+			pending = lines.pop() ?? '';
+			lines.forEach(emit);
+		},
+		flush() {
+			emit(pending);
+			pending = '';
+		},
+	};
+}
+
+/**
+ * Runs the git-spice binary and records the invocation (args, cwd, duration, exit code,
+ * stdout and stderr) in the command log. Failures reject with an error whose message
+ * references the log entry; cancellation rejects with a `CommandCancelledError`.
+ *
+ * Timeouts and cancellation send SIGTERM so git-spice can clean up, then SIGKILL
+ * if the process is still alive after a grace period.
+ */
+function execGitSpiceBinary(
+	args: GitSpiceArgs,
+	cwd: string,
+	options: ProcessRunOptions = {},
+): Promise<{ stdout: string; stderr: string }> {
+	// Cancelled while waiting in the operation queue: never start the process
+	if (options.token?.isCancellationRequested) {
+		return Promise.reject(new CommandCancelledError());
+	}
+
+	const invocation = buildInvocation(args);
+	const timeoutMs = options.timeoutMs ?? getGitSpiceConfig().timeoutMs;
+	const startedAt = Date.now();
+
+	return new Promise((resolve, reject) => {
+		let stdout = '';
+		let stderr = '';
+		let settled = false;
+		let stopReason: 'timeout' | 'cancelled' | 'failed' | undefined;
+		let failureMessage = '';
+		let killTimer: NodeJS.Timeout | undefined;
+		const lines = createLineSplitter((line) => options.onOutput?.(line));
+
+		const child = spawn(invocation.command, invocation.args, {
+			cwd,
+			env: invocation.env,
+			stdio: ['pipe', 'pipe', 'pipe'],
+		});
+
+		const record = (exitCode: number | null, error?: string): number => logCommand({
+			command: invocation.command,
+			args: invocation.args,
+			cwd,
+			durationMs: Date.now() - startedAt,
+			exitCode,
+			stdout,
+			stderr,
+			error,
+		});
+
+		const stop = (reason: 'timeout' | 'cancelled' | 'failed'): void => {
+			if (stopReason || child.exitCode !== null) {
+				return;
+			}
+			stopReason = reason;
+			child.kill('SIGTERM');
+			killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+		};
+
+		const timeoutTimer = setTimeout(() => stop('timeout'), timeoutMs);
+		const cancellation = options.token?.onCancellationRequested(() => stop('cancelled'));
+
+		const settle = (exitCode: number | null, spawnError?: Error): void => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			clearTimeout(timeoutTimer);
+			clearTimeout(killTimer);
+			cancellation?.dispose();
+			lines.flush();
+
+			if (stopReason === 'failed') {
+				const entry = record(exitCode, failureMessage);
+				reject(new Error(`${failureMessage} (see git-spice log entry #${entry})`));
+			} else if (stopReason === 'cancelled') {
+				reject(new CommandCancelledError(record(exitCode, 'Cancelled')));
+			} else if (stopReason === 'timeout') {
+				// An unterminated last line is most likely a question nobody answered
+				const waitingOn = stdout.slice(Math.max(stdout.lastIndexOf('\n'), stdout.lastIndexOf('\r')) + 1).replace(ANSI_ESCAPE, '').trim();
+				const message = `Timed out after ${Math.round(timeoutMs / 1000)} seconds${waitingOn ? ` while git-spice was waiting on "${waitingOn}"` : ''}`;
+				const entry = record(exitCode, message);
+				reject(new Error(`${message} (see git-spice log entry #${entry})`));
+			} else if (spawnError) {
+				const entry = record(null, spawnError.message);
+				reject(new Error(`${spawnError.message} (see git-spice log entry #${entry})`));
+			} else if (exitCode !== 0) {
+				const output = stderr.trim() || stdout.trim();
+				const message = `Command failed with exit code ${exitCode}${output ? `: ${output}` : ''}`;
+				const entry = record(exitCode, message);
+				reject(new Error(`${message} (see git-spice log entry #${entry})`));
+			} else {
+				record(0);
+				resolve({ stdout, stderr });
+			}
+		};
+
+		const interactive: InteractiveProcess = {
+			answer: (answer) => {
+				child.stdin.write(`${answer}\n`);
+			},
+			fail: (message) => {
+				if (!stopReason) {
+					failureMessage = message;
+				}
+				stop('failed');
+			},
+			cancel: () => stop('cancelled'),
+		};
+
+		child.stdout.on('data', (data: Buffer) => {
+			const text = data.toString();
+			stdout += text;
+			lines.push(text);
+			options.onStdout?.(text, interactive);
+		});
+		child.stderr.on('data', (data: Buffer) => {
+			const text = data.toString();
+			stderr += text;
+			lines.push(text);
+		});
+		// Writes after the process exited (e.g. a late prompt answer) must not crash the host
+		child.stdin.on('error', () => undefined);
+		child.on('error', (error) => settle(null, error));
+		child.on('close', (code) => settle(code));
+	});
+}
+
 async function runGitSpiceCommand(
 	folder: vscode.WorkspaceFolder,
 	args: GitSpiceArgs,
 	context: string,
-	timeout: number = DEFAULT_TIMEOUT_MS,
+	options?: ProcessRunOptions,
 ): Promise<BranchCommandResult> {
 	const cwd = getWorkspaceFolderPath(folder);
 	if (!cwd) {
 		return { error: `${context}: Workspace folder path is unavailable.` };
 	}
 	try {
-		await execFileAsync(GIT_SPICE_BINARY, args, { cwd, timeout });
+		await enqueueMutation(cwd, () => execGitSpiceBinary(args, cwd, options));
 		return { value: undefined };
 	} catch (error) {
-		return { error: `${context}: ${toErrorMessage(error)}` };
+		return toCommandFailure(context, error);
+	}
+}
+
+/**
+ * Runs `gs --version` to verify the configured binary exists and is recent enough.
+ * Development builds without a parseable version are accepted.
+ */
+export async function execGitSpiceVersion(): Promise<VersionCheckResult> {
+	const { binaryPath } = getGitSpiceConfig();
+	let output: string;
+	try {
+		const { stdout } = await execGitSpiceBinary(['--version'], os.homedir(), { timeoutMs: VERSION_CHECK_TIMEOUT_MS });
+		output = stdout.trim();
+	} catch (error) {
+		const message = toErrorMessage(error);
+		const missing = /ENOENT/.test(message);
+		return {
+			error: missing
+				? `git-spice binary '${binaryPath}' was not found.`
+				: `Failed to run '${binaryPath} --version': ${message}`,
+			kind: missing ? 'missing' : 'failed',
+		};
+	}
+
+	// Ghostscript is also installed as `gs` and prints a bare version number
+	const looksLikeGitSpice = /git-spice|^gs\b/i.test(output) || /\bv\d+\.\d+\.\d+/.test(output);
+	if (!looksLikeGitSpice) {
+		return {
+			error: `'${binaryPath}' does not look like git-spice (it printed: ${output || 'nothing'}). It may be Ghostscript.`,
+			kind: 'missing',
+		};
+	}
+
+	const match = output.match(/(\d+)\.(\d+)\.(\d+)/);
+	if (match && compareVersions(match.slice(1, 4).map(Number), MIN_GIT_SPICE_VERSION.split('.').map(Number)) < 0) {
+		return {
+			error: `git-spice ${match[0]} is too old; version ${MIN_GIT_SPICE_VERSION} or newer is required.`,
+			kind: 'outdated',
+		};
+	}
+
+	return { value: match ? match[0] : output };
+}
+
+function compareVersions(left: number[], right: number[]): number {
+	for (let i = 0; i < Math.max(left.length, right.length); i += 1) {
+		const diff = (left[i] ?? 0) - (right[i] ?? 0);
+		if (diff !== 0) {
+			return diff;
+		}
 	}
+	return 0;
 }
 
-export async function execGitSpice(folder: vscode.WorkspaceFolder): Promise<BranchLoadResult> {
+/**
+ * Lists all tracked branches with `gs ll -a --json`.
+ *
+ * @param options - `changeStatus` adds `--cr-status`, which asks the forge for the current state
+ * (open, merged, closed) of every change request; slower, as it needs the network
+ */
+export async function execGitSpice(
+	folder: vscode.WorkspaceFolder,
+	options: Readonly<{ changeStatus?: boolean }> = {},
+): Promise<BranchLoadResult> {
 	try {
 		const cwd = getWorkspaceFolderPath(folder);
 		if (!cwd) {
 			return { error: 'Failed to load git-spice branches: Workspace folder path is unavailable.' };
 		}
-		const { stdout } = await execFileAsync(GIT_SPICE_BINARY, ['ll', '-a', '--json'], {
-			cwd,
-		});
+		const args = options.changeStatus ? ['ll', '-a', '--json', '--cr-status'] : ['ll', '-a', '--json'];
+		const { stdout } = await enqueueRead(cwd, args.join(' '), () => execGitSpiceBinary(args, cwd));
 		return { value: parseGitSpiceBranches(stdout) };
 	} catch (error) {
 		return { error: `Failed to load git-spice branches: ${toErrorMessage(error)}` };
@@ -83,12 +484,14 @@ export async function execGitSpice(folder: vscode.WorkspaceFolder): Promise<Bran
  * 
  * @param folder - The workspace folder where the command should be executed
  * @param reorderInfo - The reorder operation details from SortableJS
+ * @param options - Cancellation and output streaming for the restack that follows the edit
  * @returns A promise that resolves with a success or error result
  */
 
 export async function execStackEdit(
 	folder: vscode.WorkspaceFolder,
 	reorderInfo: BranchReorderInfo,
+	options?: CommandRunOptions,
 ): Promise<StackEditResult> {
 	const cwd = getWorkspaceFolderPath(folder);
 	if (!cwd) {
@@ -110,8 +513,6 @@ export async function execStackEdit(
 		branchName: branchValidation.value,
 	};
 
-	console.log('🔄 execStackEdit called with reorder info:', normalizedInfo);
-	
 	const tempDir = os.tmpdir();
 	let scriptPath: string | null = null;
 
@@ -227,14 +628,8 @@ try {
 			throw new Error(`Failed to create editor script: ${scriptPath}`);
 		}
 		
-		console.log('🔄 Executing: gs stack edit --editor', scriptPath);
-		const { stdout, stderr } = await execFileAsync(GIT_SPICE_BINARY, ['stack', 'edit', '--editor', scriptPath], {
-			cwd,
-			timeout: DEFAULT_TIMEOUT_MS,
-		});
-
-		console.log('🔄 gs stack edit stdout:', stdout);
-		console.log('🔄 gs stack edit stderr:', stderr);
+		const editorPath = scriptPath;
+		const { stderr } = await enqueueMutation(cwd, () => execGitSpiceBinary(['stack', 'edit', '--editor', editorPath], cwd, options));
 
 		// Check for git-spice errors
 		if (stderr && stderr.trim()) {
@@ -243,16 +638,14 @@ try {
 
 		return { value: undefined };
 	} catch (error) {
-		const message = toErrorMessage(error);
-		console.error('🔄 execStackEdit error:', message);
-		return { error: `Failed to execute gs stack edit: ${message}` };
+		return toCommandFailure('Failed to execute gs stack edit', error);
 	} finally {
 		// Clean up the editor script with error handling
 		if (scriptPath) {
 			try {
 				await fs.promises.unlink(scriptPath);
-			} catch (cleanupError) {
-				console.error(`Failed to delete editor script: ${cleanupError}`);
+			} catch {
+				// Best effort: the OS cleans up its temp directory eventually
 			}
 		}
 	}
@@ -270,6 +663,42 @@ export async function execBranchUntrack(folder: vscode.WorkspaceFolder, branchNa
 	return runGitSpiceCommand(folder, ['branch', 'untrack', normalized.value], 'Branch untrack');
 }
 
+/**
+ * Deletes a branch with `gs branch delete`; its upstack is moved onto its base.
+ *
+ * @param force - Deletes the branch even when it has commits not merged anywhere else
+ */
+export async function execBranchDelete(folder: vscode.WorkspaceFolder, branchName: string, force: boolean): Promise<BranchCommandResult> {
+	const normalized = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalized) {
+		return { error: `Branch delete: ${normalized.error}` };
+	}
+	const args = ['branch', 'delete', normalized.value, '--no-prompt'];
+	if (force) {
+		args.push('--force');
+	}
+	return runGitSpiceCommand(folder, args, 'Branch delete');
+}
+
+/**
+ * Starts tracking an existing git branch with git-spice, stacked on `baseBranch`.
+ */
+export async function execBranchTrack(folder: vscode.WorkspaceFolder, branchName: string, baseBranch: string): Promise<BranchCommandResult> {
+	const normalizedBranch = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalizedBranch) {
+		return { error: `Branch track: ${normalizedBranch.error}` };
+	}
+	const normalizedBase = normalizeNonEmpty(baseBranch, 'Base branch name');
+	if ('error' in normalizedBase) {
+		return { error: `Branch track: ${normalizedBase.error}` };
+	}
+	return runGitSpiceCommand(
+		folder,
+		['branch', 'track', normalizedBranch.value, '--base', normalizedBase.value, '--no-prompt'],
+		'Branch track',
+	);
+}
+
 export async function execBranchCheckout(folder: vscode.WorkspaceFolder, branchName: string): Promise<BranchCommandResult> {
 	const normalized = normalizeNonEmpty(branchName, 'Branch name');
 	if ('error' in normalized) {
@@ -322,20 +751,75 @@ export async function execBranchRename(folder: vscode.WorkspaceFolder, branchNam
 	);
 }
 
-export async function execBranchRestack(folder: vscode.WorkspaceFolder, branchName: string): Promise<BranchCommandResult> {
+export async function execBranchRestack(
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	options?: CommandRunOptions,
+): Promise<BranchCommandResult> {
 	const normalized = normalizeNonEmpty(branchName, 'Branch name');
 	if ('error' in normalized) {
 		return { error: `Branch restack: ${normalized.error}` };
 	}
-	return runGitSpiceCommand(folder, ['branch', 'restack', '--branch', normalized.value], 'Branch restack');
+	return runGitSpiceCommand(folder, ['branch', 'restack', '--branch', normalized.value], 'Branch restack', options);
+}
+
+/**
+ * Flags shared by the submit commands. Unlike the settings, `fill` is not a flag choice here:
+ * titles are filled from commit messages unless `title` is given, since git-spice cannot prompt.
+ */
+export type SubmitOptions = Omit<SubmitDefaults, 'fill' | 'stackSummary'> & Readonly<{
+	/** Change request title, only for `gs branch submit`. */
+	title?: string;
+	body?: string;
+}>;
+
+/**
+ * Turns submit options into `gs * submit` flags.
+ */
+export function buildSubmitArgs(submit: SubmitOptions): string[] {
+	const args = [submit.draft ? '--draft' : '--no-draft'];
+	if (submit.title !== undefined) {
+		args.push('--title', submit.title, '--body', submit.body ?? '');
+	} else {
+		args.push('--fill');
+	}
+	for (const reviewer of submit.reviewers) {
+		args.push('--reviewer', reviewer);
+	}
+	for (const label of submit.labels) {
+		args.push('--label', label);
+	}
+	if (submit.force) {
+		args.push('--force');
+	}
+	if (submit.updateOnly) {
+		args.push('--update-only');
+	}
+	return args;
 }
 
-export async function execBranchSubmit(folder: vscode.WorkspaceFolder, branchName: string): Promise<BranchCommandResult> {
+/**
+ * @param submit - Defaults to the `git-spice.submit.*` settings of `folder`
+ */
+export async function execBranchSubmit(
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	options?: CommandRunOptions,
+	submit: SubmitOptions = getSubmitDefaults(folder),
+): Promise<BranchCommandResult> {
 	const normalized = normalizeNonEmpty(branchName, 'Branch name');
 	if ('error' in normalized) {
 		return { error: `Branch submit: ${normalized.error}` };
 	}
-	return runGitSpiceCommand(folder, ['branch', 'submit', '--branch', normalized.value], 'Branch submit');
+	if (submit.title !== undefined && submit.title.trim().length === 0) {
+		return { error: 'Branch submit: Title cannot be empty' };
+	}
+	return runGitSpiceCommand(
+		folder,
+		['branch', 'submit', '--branch', normalized.value, ...buildSubmitArgs(submit)],
+		'Branch submit',
+		options,
+	);
 }
 
 export async function execBranchCreate(folder: vscode.WorkspaceFolder, message: string): Promise<BranchCommandResult> {
@@ -343,12 +827,114 @@ export async function execBranchCreate(folder: vscode.WorkspaceFolder, message:
 	if ('error' in normalizedMessage) {
 		return { error: `Branch create: ${normalizedMessage.error}` };
 	}
-	return runGitSpiceCommand(
-		folder,
-		['branch', 'create', '-m', normalizedMessage.value, '-a', '--no-prompt', '--no-verify'],
-		'Branch create',
-		BRANCH_CREATE_TIMEOUT_MS,
-	);
+	return execBranchCreateWithOptions(folder, {
+		message: normalizedMessage.value,
+		stageAll: true,
+		runHooks: false,
+		position: 'above',
+	});
+}
+
+/**
+ * Where `gs branch create` places the new branch relative to the current branch.
+ * - `above`: stacked on the current branch, next to its existing upstack
+ * - `insert`: between the current branch and its upstack, which is moved onto the new branch
+ * - `below`: between the current branch and its base
+ */
+export type BranchCreatePosition = 'above' | 'insert' | 'below';
+
+export type BranchCreateOptions = Readonly<{
+	/** Derived from the message by git-spice when omitted. */
+	name?: string;
+	/** Creates the branch without a commit when omitted. */
+	message?: string;
+	/** Stages all changes (`-a`); otherwise only already staged changes are committed. */
+	stageAll: boolean;
+	/** Runs the pre-commit and commit-msg hooks; `--no-verify` skips them. */
+	runHooks: boolean;
+	position: BranchCreatePosition;
+}>;
+
+export async function execBranchCreateWithOptions(
+	folder: vscode.WorkspaceFolder,
+	options: BranchCreateOptions,
+): Promise<BranchCommandResult> {
+	const args = ['branch', 'create'];
+	if (options.name !== undefined) {
+		const normalizedName = normalizeNonEmpty(options.name, 'Branch name');
+		if ('error' in normalizedName) {
+			return { error: `Branch create: ${normalizedName.error}` };
+		}
+		args.push(normalizedName.value);
+	}
+
+	const message = options.message?.trim();
+	if (message) {
+		args.push('-m', message);
+	} else if (options.name === undefined) {
+		return { error: 'Branch create: A branch name or a commit message is required' };
+	} else {
+		args.push('--no-commit');
+	}
+
+	if (options.stageAll) {
+		args.push('-a');
+	}
+	if (options.position === 'insert') {
+		args.push('--insert');
+	} else if (options.position === 'below') {
+		args.push('--below');
+	}
+	args.push('--no-prompt');
+	if (!options.runHooks) {
+		args.push('--no-verify');
+	}
+
+	return runGitSpiceCommand(folder, args, 'Branch create', {
+		// Hooks such as linters can take a while; only the fast path keeps the short timeout
+		timeoutMs: options.runHooks ? getGitSpiceConfig().timeoutMs : getGitSpiceConfig().branchCreateTimeoutMs,
+	});
+}
+
+/**
+ * Commit commands - git-spice restacks the upstack of the current branch after each one
+ */
+
+export type CommitOptions = Readonly<{
+	/** Stages all tracked changes (`-a`) before committing. */
+	stageAll: boolean;
+}>;
+
+export async function execCommitCreate(
+	folder: vscode.WorkspaceFolder,
+	message: string,
+	options: CommitOptions,
+): Promise<BranchCommandResult> {
+	const normalizedMessage = normalizeNonEmpty(message, 'Commit message');
+	if ('error' in normalizedMessage) {
+		return { error: `Commit create: ${normalizedMessage.error}` };
+	}
+	const args = ['commit', 'create', '-m', normalizedMessage.value, '--no-prompt'];
+	if (options.stageAll) {
+		args.push('-a');
+	}
+	return runGitSpiceCommand(folder, args, 'Commit create');
+}
+
+/**
+ * Amends the last commit of the current branch, keeping its message when `message` is empty.
+ */
+export async function execCommitAmend(
+	folder: vscode.WorkspaceFolder,
+	message: string | undefined,
+	options: CommitOptions,
+): Promise<BranchCommandResult> {
+	const trimmed = message?.trim();
+	const args = ['commit', 'amend', ...(trimmed ? ['-m', trimmed] : ['--no-edit']), '--no-prompt'];
+	if (options.stageAll) {
+		args.push('-a');
+	}
+	return runGitSpiceCommand(folder, args, 'Commit amend');
 }
 
 export async function execCommitFixup(folder: vscode.WorkspaceFolder, sha: string): Promise<BranchCommandResult> {
@@ -382,132 +968,271 @@ export async function execBranchSplit(folder: vscode.WorkspaceFolder, branchName
 	);
 }
 
+export async function execBranchOnto(folder: vscode.WorkspaceFolder, branchName: string, ontoBranch: string): Promise<BranchCommandResult> {
+	const normalizedBranch = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalizedBranch) {
+		return { error: `Branch onto: ${normalizedBranch.error}` };
+	}
+	const normalizedOnto = normalizeNonEmpty(ontoBranch, 'Target branch name');
+	if ('error' in normalizedOnto) {
+		return { error: `Branch onto: ${normalizedOnto.error}` };
+	}
+	return runGitSpiceCommand(
+		folder,
+		['branch', 'onto', normalizedOnto.value, '--branch', normalizedBranch.value],
+		'Branch onto',
+	);
+}
+
+export async function execUpstackOnto(folder: vscode.WorkspaceFolder, branchName: string, ontoBranch: string): Promise<BranchCommandResult> {
+	const normalizedBranch = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalizedBranch) {
+		return { error: `Upstack onto: ${normalizedBranch.error}` };
+	}
+	const normalizedOnto = normalizeNonEmpty(ontoBranch, 'Target branch name');
+	if ('error' in normalizedOnto) {
+		return { error: `Upstack onto: ${normalizedOnto.error}` };
+	}
+	return runGitSpiceCommand(
+		folder,
+		['upstack', 'onto', normalizedOnto.value, '--branch', normalizedBranch.value],
+		'Upstack onto',
+	);
+}
+
+/**
+ * Upstack and downstack commands - act on the branches above or below a branch
+ */
+
+export async function execUpstackRestack(
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	options?: CommandRunOptions,
+): Promise<BranchCommandResult> {
+	const normalized = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalized) {
+		return { error: `Upstack restack: ${normalized.error}` };
+	}
+	return runGitSpiceCommand(folder, ['upstack', 'restack', '--branch', normalized.value], 'Upstack restack', options);
+}
+
+/**
+ * @param submit - Defaults to the `git-spice.submit.*` settings of `folder`; `title` and `body` are ignored
+ */
+export async function execUpstackSubmit(
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	options?: CommandRunOptions,
+	submit: SubmitOptions = getSubmitDefaults(folder),
+): Promise<BranchCommandResult> {
+	const normalized = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalized) {
+		return { error: `Upstack submit: ${normalized.error}` };
+	}
+	return runGitSpiceCommand(
+		folder,
+		['upstack', 'submit', '--branch', normalized.value, ...buildSubmitArgs({ ...submit, title: undefined })],
+		'Upstack submit',
+		options,
+	);
+}
+
+/**
+ * @param submit - Defaults to the `git-spice.submit.*` settings of `folder`; `title` and `body` are ignored
+ */
+export async function execDownstackSubmit(
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	options?: CommandRunOptions,
+	submit: SubmitOptions = getSubmitDefaults(folder),
+): Promise<BranchCommandResult> {
+	const normalized = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalized) {
+		return { error: `Downstack submit: ${normalized.error}` };
+	}
+	return runGitSpiceCommand(
+		folder,
+		['downstack', 'submit', '--branch', normalized.value, ...buildSubmitArgs({ ...submit, title: undefined })],
+		'Downstack submit',
+		options,
+	);
+}
+
+/**
+ * Runs `gs downstack edit` with `content` as the edited branch list.
+ */
+export async function execDownstackEditApply(
+	folder: vscode.WorkspaceFolder,
+	branchName: string,
+	content: string,
+	options?: CommandRunOptions,
+): Promise<BranchCommandResult> {
+	const normalized = normalizeNonEmpty(branchName, 'Branch name');
+	if ('error' in normalized) {
+		return { error: `Downstack edit: ${normalized.error}` };
+	}
+
+	const script = `#!/usr/bin/env node
+require('fs').writeFileSync(process.argv[2], ${JSON.stringify(content)});
+`;
+	try {
+		return await withEditorScript(script, (scriptPath) => runGitSpiceCommand(
+			folder,
+			['downstack', 'edit', '--branch', normalized.value, '--editor', scriptPath],
+			'Downstack edit',
+			options,
+		));
+	} catch (error) {
+		return { error: `Downstack edit: ${toErrorMessage(error)}` };
+	}
+}
+
+/**
+ * Writes `source` to a temporary executable script for git-spice's `--editor` flag,
+ * runs `run` with its path and removes the script afterwards.
+ */
+async function withEditorScript<T>(source: string, run: (scriptPath: string) => Promise<T>): Promise<T> {
+	const scriptPath = path.join(os.tmpdir(), `git-spice-editor-${Date.now()}-${Math.random().toString(36).slice(2, 11)}.js`);
+	await fs.promises.writeFile(scriptPath, source, { mode: 0o755 });
+	try {
+		return await run(scriptPath);
+	} finally {
+		await fs.promises.unlink(scriptPath).catch(() => undefined);
+	}
+}
+
 /**
  * Navigation commands - simple wrappers around git-spice navigation
  */
 
-export async function execUp(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
-	return runGitSpiceCommand(folder, ['up'], 'Navigate up');
+/**
+ * @param count - Number of branches to move up (`gs up N`)
+ */
+export async function execUp(folder: vscode.WorkspaceFolder, count = 1): Promise<BranchCommandResult> {
+	if (!isPositiveInteger(count)) {
+		return { error: 'Navigate up: Count must be a positive integer' };
+	}
+	return runGitSpiceCommand(folder, count > 1 ? ['up', String(count)] : ['up'], 'Navigate up');
 }
 
-export async function execDown(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
-	return runGitSpiceCommand(folder, ['down'], 'Navigate down');
+/**
+ * @param count - Number of branches to move down (`gs down N`)
+ */
+export async function execDown(folder: vscode.WorkspaceFolder, count = 1): Promise<BranchCommandResult> {
+	if (!isPositiveInteger(count)) {
+		return { error: 'Navigate down: Count must be a positive integer' };
+	}
+	return runGitSpiceCommand(folder, count > 1 ? ['down', String(count)] : ['down'], 'Navigate down');
 }
 
 export async function execTrunk(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
 	return runGitSpiceCommand(folder, ['trunk'], 'Navigate to trunk');
 }
 
-export async function execStackRestack(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
-	return runGitSpiceCommand(folder, ['stack', 'restack'], 'Stack restack');
+export async function execTop(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
+	return runGitSpiceCommand(folder, ['top'], 'Navigate to top');
+}
+
+export async function execBottom(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
+	return runGitSpiceCommand(folder, ['bottom'], 'Navigate to bottom');
 }
 
-export async function execStackSubmit(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
-	return runGitSpiceCommand(folder, ['stack', 'submit', '--fill', '--no-draft'], 'Stack submit');
+export async function execStackRestack(folder: vscode.WorkspaceFolder, options?: CommandRunOptions): Promise<BranchCommandResult> {
+	return runGitSpiceCommand(folder, ['stack', 'restack'], 'Stack restack', options);
 }
 
 /**
- * Executes `gs repo sync` with interactive prompts for branch deletion.
- * When git-spice prompts to delete branches (due to closed PRs), shows VSCode prompts
- * to the user and handles their responses.
+ * @param submit - Defaults to the `git-spice.submit.*` settings of `folder`; `title` and `body` are ignored
+ */
+export async function execStackSubmit(
+	folder: vscode.WorkspaceFolder,
+	options?: CommandRunOptions,
+	submit: SubmitOptions = getSubmitDefaults(folder),
+): Promise<BranchCommandResult> {
+	return runGitSpiceCommand(folder, ['stack', 'submit', ...buildSubmitArgs({ ...submit, title: undefined })], 'Stack submit', options);
+}
+
+/**
+ * Rebase commands - resume or abandon a rebase paused by a conflicting restack
+ */
+
+export async function execRebaseContinue(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
+	return runGitSpiceCommand(folder, ['rebase', 'continue', '--no-edit'], 'Rebase continue');
+}
+
+export async function execRebaseAbort(folder: vscode.WorkspaceFolder): Promise<BranchCommandResult> {
+	return runGitSpiceCommand(folder, ['rebase', 'abort'], 'Rebase abort');
+}
+
+/**
+ * Runs a git-spice command that may ask questions, answering each known prompt through
+ * `handlers`. Unknown or unhandled prompts fail the command with the prompt text.
+ */
+function execGitSpiceInteractive(
+	args: GitSpiceArgs,
+	cwd: string,
+	handlers: GitSpicePromptHandlers,
+	options: CommandRunOptions = {},
+): Promise<{ stdout: string; stderr: string }> {
+	return execGitSpiceBinary(args, cwd, { ...options, onStdout: createPromptResponder(handlers) });
+}
+
+/**
+ * Executes `gs repo sync`, answering its prompts (deleting branches whose change requests
+ * were merged or closed, picking new bases, force pushing) through `handlers`.
+ *
+ * Deleted and updated branches are found by comparing branch heads before and after the sync
+ * rather than by parsing git-spice's output.
  *
  * @param folder - The workspace folder where the command should be executed
- * @param promptCallback - Async callback to prompt the user for confirmation
+ * @param handlers - Callbacks that ask the user how to answer each prompt
+ * @param options - Cancellation and output streaming
  * @returns A promise that resolves with sync results or an error
  */
 export async function execRepoSync(
 	folder: vscode.WorkspaceFolder,
-	promptCallback: (branchName: string) => Promise<boolean>,
+	handlers: GitSpicePromptHandlers,
+	options: CommandRunOptions = {},
 ): Promise<RepoSyncResult> {
 	const cwd = getWorkspaceFolderPath(folder);
 	if (!cwd) {
 		return { error: 'Invalid workspace folder provided' };
 	}
 
-	return new Promise<RepoSyncResult>((resolve) => {
-		const deletedBranches: string[] = [];
-		let outputBuffer = '';
-		let errorBuffer = '';
-
-		// Spawn the process with stdio access
-		const process = spawn(GIT_SPICE_BINARY, ['repo', 'sync'], {
-			cwd,
-			stdio: ['pipe', 'pipe', 'pipe'],
-		});
-
-		let isResolved = false;
-		const resolveOnce = (result: RepoSyncResult): void => {
-			if (!isResolved) {
-				isResolved = true;
-				resolve(result);
-			}
-		};
-
-		// Set timeout
-		const timeout = setTimeout(() => {
-			process.kill();
-			resolveOnce({ error: 'Repository sync timed out after 30 seconds' });
-		}, DEFAULT_TIMEOUT_MS);
-
-		// Handle stdout data
-		process.stdout.on('data', (data: Buffer) => {
-			const text = data.toString();
-			outputBuffer += text;
-
-			// Look for branch deletion prompts in the output
-			// git-spice typically outputs: "Delete branch 'branch-name'? [y/N]"
-			const promptMatch = text.match(/Delete branch '([^']+)'\? \[y\/N\]/i);
-			if (promptMatch) {
-				const branchName = promptMatch[1];
-				
-				// Asynchronously prompt the user and send response
-				void (async () => {
-					try {
-						const shouldDelete = await promptCallback(branchName);
-						const response = shouldDelete ? 'y\n' : 'n\n';
-						process.stdin.write(response);
-						
-						if (shouldDelete) {
-							deletedBranches.push(branchName);
-						}
-					} catch (error) {
-						// If user cancels or there's an error, default to 'n'
-						process.stdin.write('n\n');
-					}
-				})();
+	// Fallback when the heads cannot be read: the branches the user agreed to delete
+	const confirmedDeletions: string[] = [];
+	const recordingHandlers: GitSpicePromptHandlers = {
+		...handlers,
+		deleteBranch: handlers.deleteBranch && (async (branch) => {
+			const shouldDelete = await handlers.deleteBranch!(branch);
+			if (shouldDelete) {
+				confirmedDeletions.push(branch);
 			}
-		});
+			return shouldDelete;
+		}),
+	};
 
-		// Handle stderr data
-		process.stderr.on('data', (data: Buffer) => {
-			errorBuffer += data.toString();
-		});
+	try {
+		return await enqueueMutation(cwd, async () => {
+			const before = await snapshotRefs(folder);
+			await execGitSpiceInteractive(['repo', 'sync'], cwd, recordingHandlers, options);
+			const after = await snapshotRefs(folder);
 
-		// Handle process exit
-		process.on('close', (code) => {
-			clearTimeout(timeout);
-			
-			if (code === 0) {
-				// Success - parse output to count synced branches
-				const syncedBranchesMatch = outputBuffer.match(/(\d+) branch(?:es)? synced/i);
-				const syncedBranches = syncedBranchesMatch ? Number.parseInt(syncedBranchesMatch[1], 10) : 0;
-				
-				resolveOnce({
-					value: {
-						deletedBranches,
-						syncedBranches,
-					},
-				});
-			} else {
-				const errorMessage = errorBuffer.trim() || outputBuffer.trim() || `Process exited with code ${code}`;
-				resolveOnce({ error: `Repository sync failed: ${errorMessage}` });
+			if ('error' in before || 'error' in after) {
+				return { value: { deletedBranches: confirmedDeletions, syncedBranches: 0 } };
 			}
+			return { value: compareBranchHeads(before.value, after.value) };
 		});
+	} catch (error) {
+		return toCommandFailure('Repository sync failed', error);
+	}
+}
 
-		// Handle process errors
-		process.on('error', (error) => {
-			clearTimeout(timeout);
-			resolveOnce({ error: `Failed to execute gs repo sync: ${toErrorMessage(error)}` });
-		});
-	});
+function compareBranchHeads(before: RefSnapshot, after: RefSnapshot): { deletedBranches: string[]; syncedBranches: number } {
+	const prefix = 'refs/heads/';
+	const heads = Object.keys(before.refs).filter((name) => name.startsWith(prefix));
+	return {
+		deletedBranches: heads.filter((name) => !(name in after.refs)).map((name) => name.slice(prefix.length)),
+		syncedBranches: heads.filter((name) => name in after.refs && after.refs[name] !== before.refs[name]).length,
+	};
 }
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+
+import { logMessage } from './commandLog';
+import { diffSnapshots, restoreRefs, snapshotRefs, type RefSnapshot } from './git';
+import { enqueueMutation } from './operationQueue';
+
+/** Operations kept per repository; older ones can no longer be undone. */
+const MAX_ENTRIES = 20;
+
+export type JournalEntry = Readonly<{
+	/** User-facing description, e.g. "Squash feature-x". */
+	label: string;
+	timestamp: number;
+	/** Refs before the operation; undo restores these. */
+	before: RefSnapshot;
+	/** Refs right after the operation, used to detect changes made since. */
+	after: RefSnapshot;
+	changedRefs: ReadonlyArray<string>;
+}>;
+
+export type UndoResult = { value: JournalEntry } | { error: string };
+
+/**
+ * Remembers the branch heads and git-spice metadata from before each recorded operation,
+ * so the most recent operations can be undone by moving the refs back.
+ *
+ * The journal lives in memory: it is per window and cleared on reload.
+ */
+export class OperationJournal implements vscode.Disposable {
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.WorkspaceFolder>();
+	readonly onDidChange = this.onDidChangeEmitter.event;
+
+	private readonly entries = new Map<string, JournalEntry[]>();
+
+	/**
+	 * Runs `operation` between two ref snapshots and records it when refs changed, even when the
+	 * operation reports a failure (a conflicting restack or an aborted split can leave refs moved).
+	 * Snapshots and operation share one slot of the repository's operation queue, so changes made
+	 * by other queued commands never end up in the entry.
+	 */
+	record<T>(folder: vscode.WorkspaceFolder, label: string, operation: () => Promise<T>): Promise<T> {
+		return enqueueMutation(folder.uri.fsPath, async () => {
+			const before = await snapshotRefs(folder);
+			if ('error' in before) {
+				logMessage(`${label} will not be undoable: ${before.error}`);
+				return operation();
+			}
+
+			try {
+				return await operation();
+			} finally {
+				const after = await snapshotRefs(folder);
+				if ('value' in after) {
+					const changedRefs = diffSnapshots(before.value, after.value);
+					if (changedRefs.length > 0 || before.value.headSha !== after.value.headSha) {
+						this.push(folder, { label, timestamp: Date.now(), before: before.value, after: after.value, changedRefs });
+					}
+				}
+			}
+		});
+	}
+
+	peek(folder: vscode.WorkspaceFolder): JournalEntry | undefined {
+		const entries = this.entries.get(folder.uri.toString());
+		return entries?.[entries.length - 1];
+	}
+
+	/**
+	 * Lists refs that moved since `entry` was recorded. Undoing resets these too.
+	 */
+	async changedSince(folder: vscode.WorkspaceFolder, entry: JournalEntry): Promise<string[]> {
+		const current = await snapshotRefs(folder);
+		return 'value' in current ? diffSnapshots(entry.after, current.value) : [];
+	}
+
+	/**
+	 * Restores the refs recorded before the most recent operation and drops it from the journal.
+	 * Runs through the repository's operation queue so it never interleaves with git-spice commands.
+	 */
+	async undo(folder: vscode.WorkspaceFolder): Promise<UndoResult> {
+		const entry = this.peek(folder);
+		if (!entry) {
+			return { error: 'Nothing to undo.' };
+		}
+
+		const result = await enqueueMutation(folder.uri.fsPath, () => restoreRefs(folder, entry.before, `git-spice: undo ${entry.label}`));
+		if ('error' in result) {
+			return result;
+		}
+
+		this.entries.get(folder.uri.toString())?.pop();
+		this.onDidChangeEmitter.fire(folder);
+		return { value: entry };
+	}
+
+	dispose(): void {
+		this.onDidChangeEmitter.dispose();
+	}
+
+	private push(folder: vscode.WorkspaceFolder, entry: JournalEntry): void {
+		const key = folder.uri.toString();
+		const entries = this.entries.get(key) ?? [];
+		entries.push(entry);
+		if (entries.length > MAX_ENTRIES) {
+			entries.shift();
+		}
+		this.entries.set(key, entries);
+		this.onDidChangeEmitter.fire(folder);
+	}
+}
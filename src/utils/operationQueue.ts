@@ -0,0 +1,119 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import * as vscode from 'vscode';
+
+export type BusyChangeEvent = Readonly<{
+	/** Working directory of the repository whose queue changed. */
+	cwd: string;
+	busy: boolean;
+}>;
+
+const onDidChangeBusyEmitter = new vscode.EventEmitter<BusyChangeEvent>();
+
+/** Fires when a repository's queue starts or finishes running mutating commands. */
+export const onDidChangeBusy = onDidChangeBusyEmitter.event;
+
+/** Repositories whose queue the current async context is running a task for. */
+const heldQueues = new AsyncLocalStorage<ReadonlySet<string>>();
+
+/**
+ * Serializes the git-spice commands of one repository. Concurrent `gs` processes race on
+ * `refs/spice/data`, so every command waits for the ones queued before it.
+ *
+ * Mutating commands run one at a time in submission order. Read-only commands queue the same way
+ * (so they never observe a half-finished operation), but a read that finds an identical read still
+ * waiting shares its result instead of running again; this collapses bursts of refreshes.
+ *
+ * Commands queued from inside a running task (e.g. the git-spice commands of a journaled
+ * operation) run right away in that task's slot instead of waiting for it to finish.
+ */
+class OperationQueue {
+	private tail: Promise<unknown> = Promise.resolve();
+	private readonly waitingReads = new Map<string, Promise<unknown>>();
+	private pendingMutations = 0;
+
+	constructor(private readonly cwd: string) {}
+
+	get busy(): boolean {
+		return this.pendingMutations > 0;
+	}
+
+	runMutation<T>(task: () => Promise<T>): Promise<T> {
+		if (this.isHeld()) {
+			return task();
+		}
+		this.pendingMutations += 1;
+		if (this.pendingMutations === 1) {
+			onDidChangeBusyEmitter.fire({ cwd: this.cwd, busy: true });
+		}
+
+		return this.append(task).finally(() => {
+			this.pendingMutations -= 1;
+			if (this.pendingMutations === 0) {
+				onDidChangeBusyEmitter.fire({ cwd: this.cwd, busy: false });
+			}
+		});
+	}
+
+	/**
+	 * @param key - Identifies equivalent reads, e.g. the joined command arguments
+	 */
+	runRead<T>(key: string, task: () => Promise<T>): Promise<T> {
+		if (this.isHeld()) {
+			return task();
+		}
+		const waiting = this.waitingReads.get(key);
+		if (waiting) {
+			return waiting as Promise<T>;
+		}
+
+		const result = this.append(() => {
+			// Once started, later reads must run again to see changes made in the meantime
+			this.waitingReads.delete(key);
+			return task();
+		});
+		this.waitingReads.set(key, result);
+		return result;
+	}
+
+	private isHeld(): boolean {
+		return heldQueues.getStore()?.has(this.cwd) ?? false;
+	}
+
+	private append<T>(task: () => Promise<T>): Promise<T> {
+		const run = (): Promise<T> => heldQueues.run(new Set([...(heldQueues.getStore() ?? []), this.cwd]), task);
+		const result = this.tail.then(run, run);
+		// Keep the chain alive when a task fails; callers observe the failure through `result`
+		this.tail = result.catch(() => undefined);
+		return result;
+	}
+}
+
+const queues = new Map<string, OperationQueue>();
+
+function getQueue(cwd: string): OperationQueue {
+	let queue = queues.get(cwd);
+	if (!queue) {
+		queue = new OperationQueue(cwd);
+		queues.set(cwd, queue);
+	}
+	return queue;
+}
+
+/**
+ * Runs a command that changes the repository after all previously queued commands finish.
+ */
+export function enqueueMutation<T>(cwd: string, task: () => Promise<T>): Promise<T> {
+	return getQueue(cwd).runMutation(task);
+}
+
+/**
+ * Runs a read-only command after all previously queued commands finish,
+ * sharing the result with an identical read that has not started yet.
+ */
+export function enqueueRead<T>(cwd: string, key: string, task: () => Promise<T>): Promise<T> {
+	return getQueue(cwd).runRead(key, task);
+}
+
+export function isRepositoryBusy(cwd: string): boolean {
+	return queues.get(cwd)?.busy ?? false;
+}
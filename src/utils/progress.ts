@@ -0,0 +1,69 @@
+import type * as vscode from 'vscode';
+
+const MAX_MESSAGE_LENGTH = 80;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+/** Log level prefix git-spice puts on its log lines, e.g. "INF" or "WRN". */
+const LEVEL_PREFIX = /^(?:DBG|INF|WRN|ERR)\s+/;
+
+const ACTION_VERBS: ReadonlyArray<[RegExp, string]> = [
+	[/\bpush/i, 'Pushing'],
+	[/\bcreat/i, 'Creating'],
+	[/\bupdat/i, 'Updating'],
+	[/\b(?:restack|rebas)/i, 'Restacking'],
+	[/\bdelet/i, 'Deleting'],
+];
+
+/**
+ * Turns streamed git-spice output lines into progress notification messages.
+ *
+ * Lines that mention one of `branches` are reported as `"<Verb> <branch> (i/n)"`,
+ * e.g. "Pushing feature-x (2/5)". Other lines are shown as printed, minus the log level.
+ *
+ * @param progress - Progress of the `withProgress` notification
+ * @param branches - Branches the operation walks through, in the order git-spice visits them
+ * @param defaultVerb - Verb for branch lines that don't name an action
+ */
+export function createOutputReporter(
+	progress: vscode.Progress<{ message?: string }>,
+	branches: ReadonlyArray<string> = [],
+	defaultVerb = 'Processing',
+): (line: string) => void {
+	// Longest names first so "feature-x-2" is not reported as "feature-x"
+	const candidates = [...branches].sort((a, b) => b.length - a.length);
+
+	return (line: string) => {
+		const text = line.replace(ANSI_ESCAPE, '').replace(LEVEL_PREFIX, '').trim();
+		if (text.length === 0) {
+			return;
+		}
+
+		const branch = candidates.find((name) => mentionsBranch(text, name));
+		if (branch) {
+			const verb = ACTION_VERBS.find(([pattern]) => pattern.test(text))?.[1] ?? defaultVerb;
+			progress.report({ message: `${verb} ${branch} (${branches.indexOf(branch) + 1}/${branches.length})` });
+			return;
+		}
+
+		progress.report({
+			message: text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : text,
+		});
+	};
+}
+
+function mentionsBranch(text: string, branch: string): boolean {
+	let index = text.indexOf(branch);
+	while (index !== -1) {
+		const before = text[index - 1];
+		const after = text[index + branch.length];
+		if (!isBranchNameChar(before) && !isBranchNameChar(after)) {
+			return true;
+		}
+		index = text.indexOf(branch, index + 1);
+	}
+	return false;
+}
+
+function isBranchNameChar(char: string | undefined): boolean {
+	return char !== undefined && /[\w./-]/.test(char);
+}
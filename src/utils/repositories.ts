@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+
+import { logMessage } from './commandLog';
+
+/**
+ * Subset of the built-in vscode.git extension API used by this extension.
+ * See https://github.com/microsoft/vscode/blob/main/extensions/git/src/api/git.d.ts
+ */
+export interface GitInputBox {
+	value: string;
+}
+
+export interface GitChange {
+	/** A `Status` value of the git extension API. */
+	readonly status: number;
+}
+
+export interface GitRepositoryState {
+	readonly indexChanges: ReadonlyArray<GitChange>;
+	readonly workingTreeChanges: ReadonlyArray<GitChange>;
+}
+
+export interface GitRepository {
+	readonly rootUri: vscode.Uri;
+	readonly inputBox: GitInputBox;
+	readonly state: GitRepositoryState;
+	readonly ui: { readonly selected: boolean };
+	status(): Promise<void>;
+}
+
+/** `Status.UNTRACKED` and `Status.IGNORED` of the git extension API. */
+const UNTRACKED_STATUSES: ReadonlySet<number> = new Set([7, 8]);
+
+/**
+ * Counts working tree changes to files git already tracks, the ones `git commit -a` stages.
+ * Untracked files are listed among working tree changes unless VS Code shows them separately.
+ */
+export function countTrackedChanges(state: GitRepositoryState): number {
+	return state.workingTreeChanges.filter((change) => !UNTRACKED_STATUSES.has(change.status)).length;
+}
+
+interface GitApi {
+	readonly repositories: GitRepository[];
+	readonly onDidOpenRepository: vscode.Event<GitRepository>;
+	readonly onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtension {
+	getAPI(version: 1): GitApi;
+}
+
+/**
+ * Tracks the git repositories open in the window through the vscode.git API.
+ * Each repository is exposed as a `vscode.WorkspaceFolder` rooted at the repository,
+ * which is what the git-spice command helpers take as their working directory.
+ *
+ * Falls back to the workspace folders when the git extension is unavailable.
+ */
+export class RepositoryTracker implements vscode.Disposable {
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChange = this.onDidChangeEmitter.event;
+
+	private gitApi: GitApi | undefined;
+	private readonly folders = new Map<string, vscode.WorkspaceFolder>();
+	private readonly disposables: vscode.Disposable[] = [this.onDidChangeEmitter];
+
+	async initialize(): Promise<void> {
+		this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.onDidChangeEmitter.fire()));
+
+		try {
+			const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+			const gitExtension = extension?.isActive ? extension.exports : await extension?.activate();
+			this.gitApi = gitExtension?.getAPI(1);
+		} catch (error) {
+			logMessage(`Failed to load the vscode.git API: ${error instanceof Error ? error.message : String(error)}`);
+			this.gitApi = undefined;
+		}
+
+		if (this.gitApi) {
+			this.disposables.push(
+				this.gitApi.onDidOpenRepository(() => this.onDidChangeEmitter.fire()),
+				this.gitApi.onDidCloseRepository(() => this.onDidChangeEmitter.fire()),
+			);
+		}
+		this.onDidChangeEmitter.fire();
+	}
+
+	/**
+	 * Returns one folder per git repository, sorted by path.
+	 */
+	getRepositories(): vscode.WorkspaceFolder[] {
+		const roots = this.gitApi && this.gitApi.repositories.length > 0
+			? this.gitApi.repositories.map((repository) => repository.rootUri)
+			: (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri);
+
+		return roots
+			.slice()
+			.sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+			.map((uri, index) => this.toFolder(uri, index));
+	}
+
+	getRepository(id: string): vscode.WorkspaceFolder | undefined {
+		return this.getRepositories().find((folder) => folder.uri.toString() === id);
+	}
+
+	getGitRepository(folder: vscode.WorkspaceFolder): GitRepository | undefined {
+		return this.gitApi?.repositories.find((repository) => repository.rootUri.toString() === folder.uri.toString());
+	}
+
+	/**
+	 * Finds the innermost repository containing the given file.
+	 */
+	findRepository(uri: vscode.Uri): vscode.WorkspaceFolder | undefined {
+		let match: vscode.WorkspaceFolder | undefined;
+		for (const folder of this.getRepositories()) {
+			const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+			const contains = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+			if (contains && (!match || folder.uri.fsPath.length > match.uri.fsPath.length)) {
+				match = folder;
+			}
+		}
+		return match;
+	}
+
+	/**
+	 * Picks the repository a command should act on: the active editor's repository,
+	 * then the repository selected in the Source Control view, then `fallback`.
+	 */
+	resolveCommandRepository(fallback?: vscode.WorkspaceFolder): vscode.WorkspaceFolder | undefined {
+		const editorUri = vscode.window.activeTextEditor?.document.uri;
+		if (editorUri?.scheme === 'file') {
+			const fromEditor = this.findRepository(editorUri);
+			if (fromEditor) {
+				return fromEditor;
+			}
+		}
+
+		const selected = this.gitApi?.repositories.filter((repository) => repository.ui.selected) ?? [];
+		if (selected.length === 1) {
+			return this.getRepository(selected[0].rootUri.toString());
+		}
+
+		return fallback ?? this.getRepositories()[0];
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private toFolder(uri: vscode.Uri, index: number): vscode.WorkspaceFolder {
+		const key = uri.toString();
+		const existing = this.folders.get(key);
+		if (existing && existing.index === index) {
+			return existing;
+		}
+		const folder: vscode.WorkspaceFolder = { uri, name: path.basename(uri.fsPath), index };
+		this.folders.set(key, folder);
+		return folder;
+	}
+}